@@ -1,19 +1,30 @@
 import typescript from "@rollup/plugin-typescript";
 import dts from "rollup-plugin-dts";
 
+// Entry points share chunks so error classes keep a single identity
+const input = {
+  index: "src/index.ts",
+  node: "src/node.ts",
+  testing: "src/testing.ts",
+};
+
 export default [
   // ESM and CJS bundles
   {
-    input: "src/index.ts",
+    input,
     output: [
       {
-        file: "dist/index.js",
+        dir: "dist",
         format: "esm",
+        entryFileNames: "[name].js",
+        chunkFileNames: "chunks/[name]-[hash].js",
         sourcemap: true,
       },
       {
-        file: "dist/index.cjs",
+        dir: "dist",
         format: "cjs",
+        entryFileNames: "[name].cjs",
+        chunkFileNames: "chunks/[name]-[hash].cjs",
         sourcemap: true,
       },
     ],
@@ -23,15 +34,18 @@ export default [
         declaration: false,
       }),
     ],
-    external: [],
+    external: [/^node:/],
   },
   // Type declarations bundle
   {
-    input: "src/index.ts",
+    input,
     output: {
-      file: "dist/index.d.ts",
+      dir: "dist",
       format: "esm",
+      entryFileNames: "[name].d.ts",
+      chunkFileNames: "chunks/[name]-[hash].d.ts",
     },
     plugins: [dts()],
+    external: [/^node:/],
   },
 ];
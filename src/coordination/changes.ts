@@ -0,0 +1,92 @@
+/**
+ * Change Feed
+ *
+ * Delivers ledger change notifications to subscribers in this tab and,
+ * over a BroadcastChannel, to ledgers in other tabs sharing the store.
+ */
+
+import type { LedgerChange, LedgerChangeListener } from '../types.js';
+
+/**
+ * A change as sent between tabs.
+ */
+type ChangeMessage = Omit<LedgerChange, 'remote'>;
+
+/**
+ * Publishes local changes and relays remote ones to listeners.
+ */
+export class LedgerChangeFeed {
+  private readonly listeners = new Set<LedgerChangeListener>();
+  private channel: BroadcastChannel | null = null;
+  private closed = false;
+
+  /**
+   * @param name Channel name shared by ledgers on the same store
+   * @param shared Whether to exchange changes with other tabs
+   */
+  constructor(private readonly name: string, private readonly shared: boolean) {}
+
+  /**
+   * Open the channel for remote changes on first subscribe, so ledgers
+   * without subscribers hold no channel open. The channel does not keep
+   * Node processes alive.
+   */
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && !this.closed && this.shared && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+        this.emit({ ...event.data, remote: true });
+      };
+      (this.channel as BroadcastChannel & { unref?: () => void }).unref?.();
+    }
+    return this.channel;
+  }
+
+  private emit(change: LedgerChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error: unknown) {
+        console.error('[request-ledger] Change listener error:', error);
+      }
+    }
+  }
+
+  /**
+   * Notify local listeners and other tabs of a change made here.
+   */
+  publish(change: ChangeMessage): void {
+    this.emit({ ...change, remote: false });
+    if (this.channel) {
+      this.channel.postMessage(change);
+    } else if (this.shared && !this.closed && typeof BroadcastChannel !== 'undefined') {
+      // Messages already posted are still delivered after close
+      const channel = new BroadcastChannel(this.name);
+      channel.postMessage(change);
+      channel.close();
+    }
+  }
+
+  /**
+   * Listen for changes.
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LedgerChangeListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop listening and close the channel.
+   */
+  close(): void {
+    this.closed = true;
+    this.listeners.clear();
+    this.channel?.close();
+    this.channel = null;
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Leader Election
+ *
+ * Elects one leader among tabs (or workers) sharing a name, so that only
+ * one of them replays the queue.
+ *
+ * - Web Locks: the leader holds an exclusive lock for as long as it lives.
+ *   The browser releases it when the tab closes, and the next waiting tab
+ *   acquires it.
+ * - BroadcastChannel fallback: the leader sends heartbeats; when they stop,
+ *   the remaining tabs elect a new leader. Ties go to the lowest ID.
+ * - Neither available: the single instance is always the leader.
+ */
+
+const DEFAULT_HEARTBEAT_MS = 1000;
+const DEFAULT_LEADER_TIMEOUT_MS = 3000;
+const ELECTION_WINDOW_MS = 250;
+
+/**
+ * Options for creating a leader elector.
+ */
+export interface LeaderElectorOptions {
+  /** Name shared by the competing instances */
+  name: string;
+  /** Heartbeat interval of the BroadcastChannel fallback */
+  heartbeatMs?: number;
+  /** Heartbeat silence after which the fallback elects a new leader */
+  leaderTimeoutMs?: number;
+  /** Called when this instance gains or loses leadership */
+  onChange?: (isLeader: boolean) => void;
+}
+
+/**
+ * Elects a single leader among instances sharing a name.
+ */
+export interface LeaderElector {
+  /** Whether this instance currently leads */
+  readonly isLeader: boolean;
+  /** Start competing for leadership */
+  start(): void;
+  /** Resolves once the first election has settled */
+  ready(): Promise<void>;
+  /** Stop competing and release leadership */
+  stop(): void;
+}
+
+type ElectionMessage =
+  | { type: 'claim'; id: string }
+  | { type: 'heartbeat'; id: string }
+  | { type: 'resign'; id: string };
+
+/**
+ * Shared leadership bookkeeping.
+ */
+abstract class BaseLeaderElector implements LeaderElector {
+  private leader = false;
+  private settled = false;
+  private resolveReady: () => void = () => undefined;
+  private readonly readyPromise = new Promise<void>((resolve) => {
+    this.resolveReady = resolve;
+  });
+
+  constructor(protected readonly onChange: ((isLeader: boolean) => void) | undefined) {}
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  abstract start(): void;
+  abstract stop(): void;
+
+  protected settle(): void {
+    if (!this.settled) {
+      this.settled = true;
+      this.resolveReady();
+    }
+  }
+
+  protected setLeader(leader: boolean): void {
+    if (this.leader === leader) {
+      return;
+    }
+    this.leader = leader;
+    this.onChange?.(leader);
+  }
+
+  /**
+   * Drop leadership on stop without notifying.
+   */
+  protected reset(): void {
+    this.leader = false;
+    this.settle();
+  }
+}
+
+/**
+ * Leader election with the Web Locks API.
+ */
+class LockLeaderElector extends BaseLeaderElector {
+  private abortController: AbortController | null = null;
+  private release: (() => void) | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly locks: LockManager,
+    private readonly name: string,
+    onChange: ((isLeader: boolean) => void) | undefined
+  ) {
+    super(onChange);
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.abortController = new AbortController();
+
+    // Try without queueing first, so ready() settles immediately
+    this.locks.request(this.name, { ifAvailable: true }, (lock) => {
+      if (this.stopped) {
+        return undefined;
+      }
+      if (lock) {
+        return this.hold();
+      }
+      this.settle();
+      this.waitForLock();
+      return undefined;
+    }).catch(() => this.settle());
+  }
+
+  /**
+   * Queue for the lock until the current leader releases it.
+   */
+  private waitForLock(): void {
+    const signal = this.abortController?.signal;
+    if (!signal) {
+      return;
+    }
+
+    this.locks.request(this.name, { signal }, () => (this.stopped ? undefined : this.hold())).catch(() => {
+      // Aborted by stop()
+    });
+  }
+
+  /**
+   * Hold the lock until stopped.
+   */
+  private hold(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.release = resolve;
+      this.setLeader(true);
+      this.settle();
+    });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.abortController?.abort();
+    this.abortController = null;
+    this.release?.();
+    this.release = null;
+    this.reset();
+  }
+}
+
+/**
+ * Leader election with BroadcastChannel heartbeats.
+ */
+class BroadcastLeaderElector extends BaseLeaderElector {
+  private readonly id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private channel: BroadcastChannel | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private claimTimer: ReturnType<typeof setTimeout> | null = null;
+  private lostClaim = false;
+  private lastHeartbeat = 0;
+  private readonly onPageHide = (): void => this.resign();
+
+  constructor(
+    private readonly name: string,
+    private readonly heartbeatMs: number,
+    private readonly leaderTimeoutMs: number,
+    onChange: ((isLeader: boolean) => void) | undefined
+  ) {
+    super(onChange);
+  }
+
+  start(): void {
+    this.channel = new BroadcastChannel(this.name);
+    this.channel.onmessage = (event: MessageEvent<ElectionMessage>) => this.handleMessage(event.data);
+    this.heartbeatTimer = setInterval(() => this.tick(), this.heartbeatMs);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.onPageHide);
+    }
+
+    // A live leader answers the claim with a heartbeat
+    this.claim();
+  }
+
+  private post(message: ElectionMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleMessage(message: ElectionMessage): void {
+    if (message.id === this.id) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'heartbeat':
+        if (this.isLeader) {
+          // Two leaders: the lowest ID keeps leading
+          if (message.id < this.id) {
+            this.follow();
+          } else {
+            this.post({ type: 'heartbeat', id: this.id });
+          }
+        } else {
+          this.follow();
+        }
+        break;
+
+      case 'claim':
+        if (this.isLeader) {
+          this.post({ type: 'heartbeat', id: this.id });
+        } else if (this.claimTimer && message.id < this.id) {
+          this.lostClaim = true;
+        }
+        break;
+
+      case 'resign':
+        if (!this.isLeader) {
+          this.lastHeartbeat = 0;
+          this.claim();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Record the current leader's heartbeat and abandon any claim.
+   */
+  private follow(): void {
+    this.lastHeartbeat = Date.now();
+    if (this.claimTimer) {
+      clearTimeout(this.claimTimer);
+      this.claimTimer = null;
+    }
+    this.setLeader(false);
+    this.settle();
+  }
+
+  /**
+   * Announce candidacy and become leader unless a leader or a lower-ID
+   * candidate answers within the election window.
+   */
+  private claim(): void {
+    if (this.isLeader || this.claimTimer) {
+      return;
+    }
+
+    this.lostClaim = false;
+    this.post({ type: 'claim', id: this.id });
+
+    this.claimTimer = setTimeout(() => {
+      this.claimTimer = null;
+      if (this.lostClaim) {
+        // Give the winner a full timeout to start its heartbeats
+        this.lastHeartbeat = Date.now();
+        this.settle();
+        return;
+      }
+      this.setLeader(true);
+      this.settle();
+      this.post({ type: 'heartbeat', id: this.id });
+    }, ELECTION_WINDOW_MS);
+  }
+
+  private tick(): void {
+    if (this.isLeader) {
+      this.post({ type: 'heartbeat', id: this.id });
+    } else if (Date.now() - this.lastHeartbeat > this.leaderTimeoutMs) {
+      this.claim();
+    }
+  }
+
+  private resign(): void {
+    if (this.isLeader) {
+      this.post({ type: 'resign', id: this.id });
+    }
+  }
+
+  stop(): void {
+    this.resign();
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.claimTimer) clearTimeout(this.claimTimer);
+    this.heartbeatTimer = null;
+    this.claimTimer = null;
+    this.channel?.close();
+    this.channel = null;
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.onPageHide);
+    }
+
+    this.reset();
+  }
+}
+
+/**
+ * Elector for runtimes without cross-context primitives: always the leader.
+ */
+class SoloLeaderElector extends BaseLeaderElector {
+  start(): void {
+    this.setLeader(true);
+    this.settle();
+  }
+
+  stop(): void {
+    this.reset();
+  }
+}
+
+/**
+ * Create a leader elector using the best primitive available:
+ * Web Locks, then BroadcastChannel, then none.
+ *
+ * @param options Election options
+ */
+export function createLeaderElector(options: LeaderElectorOptions): LeaderElector {
+  const {
+    name,
+    heartbeatMs = DEFAULT_HEARTBEAT_MS,
+    leaderTimeoutMs = DEFAULT_LEADER_TIMEOUT_MS,
+    onChange,
+  } = options;
+
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (locks) {
+    return new LockLeaderElector(locks, name, onChange);
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastLeaderElector(name, heartbeatMs, leaderTimeoutMs, onChange);
+  }
+
+  return new SoloLeaderElector(onChange);
+}
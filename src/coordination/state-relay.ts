@@ -0,0 +1,91 @@
+/**
+ * Leader State Relay
+ *
+ * Lets follower tabs ask the leader tab for its ledger state over a
+ * BroadcastChannel, so `getState()` reflects the tab actually replaying.
+ */
+
+import type { LedgerState } from '../types.js';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 500;
+
+type RelayMessage =
+  | { type: 'state-request'; requestId: string }
+  | { type: 'state'; requestId: string; state: LedgerState };
+
+/**
+ * Answers state requests while leading, and asks the leader while following.
+ */
+export class LeaderStateRelay {
+  private readonly channel: BroadcastChannel | null;
+  private readonly pending = new Map<string, (state: LedgerState) => void>();
+
+  /**
+   * @param name Channel name shared by the coordinating tabs
+   * @param isLeader Whether this tab currently leads
+   * @param getState The local state, served to followers while leading
+   */
+  constructor(
+    name: string,
+    private readonly isLeader: () => boolean,
+    private readonly getState: () => Promise<LedgerState>
+  ) {
+    this.channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<RelayMessage>) => {
+        this.handleMessage(event.data);
+      };
+    }
+  }
+
+  private handleMessage(message: RelayMessage): void {
+    if (message.type === 'state-request') {
+      if (this.isLeader()) {
+        this.getState().then(
+          (state) => this.channel?.postMessage({ type: 'state', requestId: message.requestId, state }),
+          () => undefined
+        );
+      }
+      return;
+    }
+
+    this.pending.get(message.requestId)?.(message.state);
+  }
+
+  /**
+   * Ask the leader for its state.
+   * Resolves with undefined if no leader answers in time.
+   */
+  request(timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS): Promise<LedgerState | undefined> {
+    const channel = this.channel;
+    if (!channel) {
+      return Promise.resolve(undefined);
+    }
+
+    const requestId = Math.random().toString(36).slice(2);
+
+    return new Promise<LedgerState | undefined>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        resolve(undefined);
+      }, timeoutMs);
+
+      this.pending.set(requestId, (state) => {
+        clearTimeout(timer);
+        this.pending.delete(requestId);
+        resolve(state);
+      });
+
+      channel.postMessage({ type: 'state-request', requestId });
+    });
+  }
+
+  /**
+   * Close the channel.
+   */
+  close(): void {
+    this.channel?.close();
+    this.pending.clear();
+  }
+}
@@ -15,13 +15,28 @@ export type {
   // Entry types
   LedgerEntry,
   LedgerEntryPatch,
+  UpdateOptions,
   EntryStatus,
   EntryError,
+  ResponseSummary,
   StoredRequest,
+  BodyKind,
+  BodyEncoding,
+  StoredFormField,
+  LedgerQuery,
+  LedgerChange,
+  LedgerChangeType,
+  LedgerChangeListener,
+  SerializedEntry,
+  LedgerSnapshot,
+  ImportOptions,
+  ImportResult,
+  ImportConflictPolicy,
   
   // Request/Process options
   RequestOptions,
   ProcessOptions,
+  QueueConfig,
   HttpMethod,
   
   // State
@@ -32,13 +47,28 @@ export type {
   FixedRetryStrategy,
   ExponentialRetryStrategy,
   ManualRetryStrategy,
+  JitterMode,
+  ResponseOutcome,
+  ResponseClassifier,
+  ListQuery,
+  CoalescePolicy,
+  CoalesceMerge,
+  BatchTransport,
   
   // Configuration
   LedgerConfig,
   LedgerHooks,
   OnlineCheckConfig,
   OnlineCheckFn,
+  MultiTabConfig,
+  RetentionConfig,
   IndexedDBStorageConfig,
+  MemoryStorageConfig,
+  StorageLimitsConfig,
+  EvictionPolicy,
+  EvictionSelector,
+  EncryptedStorageConfig,
+  EncryptionKeyProvider,
   
   // Storage
   LedgerStorage,
@@ -48,16 +78,26 @@ export type {
 export {
   LedgerError,
   PersistenceError,
+  LedgerFullError,
+  QuotaExceededError,
+  EncryptionError,
   NetworkError,
+  BatchTransportError,
   EntryNotFoundError,
   DuplicateEntryError,
+  ConcurrentModificationError,
 } from './types.js';
 
 // Storage adapters
 export { IndexedDBStorage } from './storage/indexeddb.js';
+export { MemoryStorage } from './storage/memory.js';
+export { EncryptedStorage } from './storage/encrypted.js';
 
 // Online detection
-export { createOnlineChecker, isNetworkError, isRetryableStatusCode } from './online/checker.js';
+export { createOnlineChecker, isNetworkError, isRetryableStatusCode, parseRetryAfter } from './online/checker.js';
+
+// Replay
+export { defaultClassifyResponse } from './replay/classify.js';
 
 // Utilities
 export { calculateBackoffDelay, canRetry, delay } from './utils/backoff.js';
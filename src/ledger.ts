@@ -15,18 +15,39 @@
 import type {
   LedgerConfig,
   LedgerEntry,
+  ListQuery,
   LedgerState,
   LedgerStorage,
   ProcessOptions,
+  QueueConfig,
   RequestOptions,
   RetryStrategy,
   LedgerHooks,
   OnlineCheckFn,
+  IndexedDBStorageConfig,
+  MultiTabConfig,
+  LedgerChangeListener,
+  LedgerSnapshot,
+  ImportOptions,
+  ImportResult,
 } from './types.js';
-import { PersistenceError } from './types.js';
+import { DuplicateEntryError, LedgerError, PersistenceError } from './types.js';
 import { IndexedDBStorage } from './storage/indexeddb.js';
 import { createOnlineChecker, isNetworkError } from './online/checker.js';
+import { blockDependents, dependencyState, unblockDependents } from './replay/dependencies.js';
+import { orderingHeads } from './replay/ordering.js';
+import { coalesceEntry, findCoalescedEntry, findCoalesceTarget } from './storage/coalesce.js';
+import { comparePriority, DEFAULT_PRIORITY_AGING_MS } from './replay/priority.js';
 import { ReplayEngine } from './replay/engine.js';
+import { DEFAULT_QUEUE, entryQueue, queryStorage } from './storage/query.js';
+import { DEFAULT_EVICTION_POLICY, selectEvictions } from './storage/eviction.js';
+import { detectBodyKind, encodeBody, toFetchBody, toJsonValue } from './utils/body.js';
+import { createLeaderElector, type LeaderElector } from './coordination/leader.js';
+import { LeaderStateRelay } from './coordination/state-relay.js';
+import { LedgerChangeFeed } from './coordination/changes.js';
+import { ObservableStorage } from './storage/observable.js';
+import { createSnapshot, readSnapshot } from './storage/snapshot.js';
+import { entryRevision } from './storage/entries.js';
 import { DEFAULT_RETRY_STRATEGY } from './utils/backoff.js';
 
 const DEFAULT_IDEMPOTENCY_HEADER = 'X-Idempotency-Key';
@@ -41,26 +62,51 @@ export class RequestLedger {
   private readonly storage: LedgerStorage;
   private readonly onlineCheck: OnlineCheckFn;
   private readonly retryStrategy: RetryStrategy;
+  private readonly queues: Record<string, QueueConfig>;
   private readonly hooks: LedgerHooks;
   private readonly idempotencyHeader: string;
+  private readonly priorityAgingMs: number;
   private readonly replayEngine: ReplayEngine;
   private readonly autoProcess: boolean;
   private readonly autoProcessOptions: ProcessOptions;
+  private readonly elector: LeaderElector | null = null;
+  private readonly stateRelay: LeaderStateRelay | null = null;
+  private readonly changes: LedgerChangeFeed;
+  private readonly name: string;
   private isDestroyed = false;
   private onlineHandler: (() => void) | null = null;
+  private evictions: Promise<void> = Promise.resolve();
 
   constructor(config: LedgerConfig = {}) {
-    // Initialize storage
-    this.storage = config.storage ?? new IndexedDBStorage(config.storageConfig);
+    // Set hooks
+    this.hooks = config.hooks ?? {};
+    
+    // Name shared with other tabs using the same store
+    const multiTabOptions: MultiTabConfig = typeof config.multiTab === 'object' ? config.multiTab : {};
+    const coordinationName = multiTabOptions.name ?? this.defaultCoordinationName(config);
+    // Tabs only share the default storage; custom adapters must opt in by name
+    const multiTab = Boolean(config.multiTab ?? (!config.storage && typeof window !== 'undefined'));
+    if (multiTab && config.storage && !multiTabOptions.name) {
+      throw new LedgerError('multiTab requires a name when a custom storage adapter is given');
+    }
+    this.name = coordinationName;
+    
+    // Change notifications, local and, with multiTab, cross-tab
+    this.changes = new LedgerChangeFeed(`${coordinationName}:changes`, multiTab);
+    
+    // Initialize storage, reporting every mutation to subscribers
+    this.storage = new ObservableStorage(
+      config.storage ?? new IndexedDBStorage(this.withEvictHook(config.storageConfig)),
+      (change) => this.changes.publish(change)
+    );
     
     // Initialize online checker
     this.onlineCheck = createOnlineChecker(config.onlineCheck);
     
-    // Set retry strategy
+    // Set retry strategy and per-queue settings
     this.retryStrategy = config.retry ?? DEFAULT_RETRY_STRATEGY;
-    
-    // Set hooks
-    this.hooks = config.hooks ?? {};
+    this.queues = config.queues ?? {};
+    this.priorityAgingMs = config.priorityAgingMs ?? DEFAULT_PRIORITY_AGING_MS;
     
     // Set idempotency header
     this.idempotencyHeader = config.idempotencyHeader ?? DEFAULT_IDEMPOTENCY_HEADER;
@@ -76,12 +122,125 @@ export class RequestLedger {
       retry: this.retryStrategy,
       hooks: this.hooks,
       idempotencyHeader: this.idempotencyHeader,
+      queues: this.queues,
+      ...(config.retention && { retention: config.retention }),
+      ...(config.maxRetryAfterMs !== undefined && { maxRetryAfterMs: config.maxRetryAfterMs }),
+      ...(config.classifyResponse && { classifyResponse: config.classifyResponse }),
+      priorityAgingMs: this.priorityAgingMs,
+      ...(config.batchTransport && { batchTransport: config.batchTransport }),
     });
     
     // Set up auto-processing if enabled
     if (this.autoProcess && typeof window !== 'undefined') {
       this.setupAutoProcess();
     }
+    
+    // Coordinate replay across tabs
+    if (multiTab) {
+      // Entries other tabs add may have priorities
+      this.changes.subscribe((change) => {
+        if (change.remote && change.type === 'put') {
+          this.replayEngine.entryAdded();
+        }
+      });
+      this.elector = createLeaderElector({
+        name: coordinationName,
+        ...(multiTabOptions.heartbeatMs !== undefined && { heartbeatMs: multiTabOptions.heartbeatMs }),
+        ...(multiTabOptions.leaderTimeoutMs !== undefined && { leaderTimeoutMs: multiTabOptions.leaderTimeoutMs }),
+        onChange: (isLeader) => this.handleLeaderChange(isLeader),
+      });
+      this.stateRelay = new LeaderStateRelay(
+        `${coordinationName}:state`,
+        () => this.elector?.isLeader ?? false,
+        () => this.replayEngine.getState()
+      );
+      this.elector.start();
+    }
+  }
+
+  /**
+   * Coordination name for tabs sharing the default storage.
+   */
+  private defaultCoordinationName(config: LedgerConfig): string {
+    const dbName = config.storageConfig?.dbName ?? 'request-ledger';
+    const storeName = config.storageConfig?.storeName ?? 'entries';
+    return `request-ledger:${dbName}/${storeName}`;
+  }
+
+  /**
+   * React to gaining or losing replay leadership.
+   */
+  private handleLeaderChange(isLeader: boolean): void {
+    if (this.isDestroyed) return;
+    
+    this.hooks.onLeaderChange?.(isLeader);
+    
+    if (!isLeader) {
+      // Another tab leads now; stop sending
+      this.replayEngine.stop();
+    } else if (this.autoProcess) {
+      // Take over the queue left by the previous leader
+      this.process(this.autoProcessOptions).catch((error) => {
+        console.error('[request-ledger] Auto-process error:', error);
+      });
+    }
+  }
+
+  /**
+   * Whether this tab may replay the queue.
+   * Always true when multi-tab coordination is disabled.
+   */
+  private async canProcess(): Promise<boolean> {
+    if (!this.elector) {
+      return true;
+    }
+    await this.elector.ready();
+    return this.elector.isLeader;
+  }
+
+  /**
+   * Route evictions of the default storage to `evicted()`, alongside any
+   * onEvict given in the storage config.
+   */
+  private withEvictHook(storageConfig: IndexedDBStorageConfig = {}): IndexedDBStorageConfig {
+    const configured = storageConfig.onEvict;
+    return {
+      ...storageConfig,
+      onEvict: (entry) => {
+        configured?.(entry);
+        this.evicted(entry);
+      },
+    };
+  }
+
+  /**
+   * Report an entry that storage evicted to make room: fires the onEvict
+   * hook, notifies subscribers and blocks the entry's dependents.
+   * 
+   * The ledger does this for the storage it creates; route the `onEvict`
+   * of a storage instance you create here.
+   * 
+   * @param entry The evicted entry
+   */
+  evicted(entry: LedgerEntry): void {
+    this.hooks.onEvict?.(entry);
+    this.changes.publish({ type: 'remove', entryId: entry.id });
+    
+    // Storage reports evictions synchronously; requests and processing
+    // wait for the blocking before going on
+    this.evictions = this.evictions
+      .then(() => this.blockDependentsOf(entry))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Block the dependents of an entry that left the ledger without
+   * succeeding, since a missing dependency counts as succeeded.
+   */
+  private async blockDependentsOf(entry: LedgerEntry): Promise<void> {
+    if (entry.status !== 'completed') {
+      await blockDependents(this.storage, entry.id);
+    }
   }
 
   /**
@@ -108,6 +267,8 @@ export class RequestLedger {
    * Behavior:
    * - If online → attempt immediately
    * - If offline or request fails due to network → persist to ledger
+   * - If queued entries must go first (dependencies, ordering key, or a
+   *   queued request to coalesce with) → persist to ledger
    * - If persistence fails → throw explicitly
    * 
    * @param options The request options
@@ -116,10 +277,24 @@ export class RequestLedger {
   async request(options: RequestOptions): Promise<Response | void> {
     this.ensureNotDestroyed();
 
+    if (options.coalesceKey !== undefined && !options.coalesce) {
+      throw new LedgerError('coalesceKey requires a coalesce policy');
+    }
+
+    // Dependencies on coalesced requests wait for the entries they went into
+    if (options.dependsOn?.length) {
+      options = { ...options, dependsOn: await this.resolveDependencies(options.dependsOn) };
+    }
+
     // Check if online
     const online = await this.onlineCheck();
 
-    if (online) {
+    // Requests waiting on queued entries are sent by replay, after those
+    const ready = (!options.dependsOn?.length || await dependencyState(this.storage, options) === 'ready')
+      && (options.orderingKey === undefined || !(await orderingHeads(this.storage)).has(options.orderingKey))
+      && (options.coalesceKey === undefined || !(await findCoalesceTarget(this.storage, options.coalesceKey)));
+
+    if (online && ready) {
       // Try to make the request immediately
       try {
         const response = await this.executeRequest(options);
@@ -134,16 +309,29 @@ export class RequestLedger {
         throw error;
       }
     } else {
-      // Offline: queue the request
+      // Offline, or waiting on queued entries: queue the request
       await this.persistRequest(options);
     }
   }
 
+  /**
+   * Replace IDs of coalesced requests with the IDs of the entries they
+   * were coalesced into.
+   */
+  private async resolveDependencies(ids: string[]): Promise<string[]> {
+    const resolved = new Set<string>();
+    for (const id of ids) {
+      const entry = await this.storage.get(id) ?? await findCoalescedEntry(this.storage, id);
+      resolved.add(entry?.id ?? id);
+    }
+    return Array.from(resolved);
+  }
+
   /**
    * Execute an HTTP request.
    */
   private async executeRequest(options: RequestOptions): Promise<Response> {
-    const { url, method, headers = {}, body, idempotencyKey } = options;
+    const { url, method, headers = {}, body, bodyKind, idempotencyKey } = options;
 
     const requestHeaders = new Headers(headers);
     
@@ -152,19 +340,10 @@ export class RequestLedger {
       requestHeaders.set(this.idempotencyHeader, idempotencyKey);
     }
 
-    // Determine body
-    let requestBody: string | undefined;
-    if (body !== undefined && body !== null) {
-      requestBody = JSON.stringify(body);
-      if (!requestHeaders.has('Content-Type')) {
-        requestHeaders.set('Content-Type', 'application/json');
-      }
-    }
-
     return fetch(url, {
       method,
       headers: requestHeaders,
-      body: requestBody ?? null,
+      body: toFetchBody(body, bodyKind ?? detectBodyKind(body), requestHeaders),
     });
   }
 
@@ -172,26 +351,54 @@ export class RequestLedger {
    * Persist a request to the ledger.
    */
   private async persistRequest(options: RequestOptions): Promise<void> {
+    const { body, encoding } = await encodeBody(options.body, options.bodyKind);
+    
     const entry: LedgerEntry = {
       id: options.id,
       request: {
         url: options.url,
         method: options.method,
         headers: options.headers ?? {},
-        body: options.body,
+        body,
+        ...(encoding && { encoding }),
       },
       status: 'pending',
       attemptCount: 0,
       createdAt: Date.now(),
       ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
-      ...(options.metadata && { metadata: options.metadata }),
+      ...(options.queue && options.queue !== DEFAULT_QUEUE && { queue: options.queue }),
+      ...(options.dependsOn && options.dependsOn.length > 0 && { dependsOn: [...options.dependsOn] }),
+      ...(options.orderingKey !== undefined && { orderingKey: options.orderingKey }),
+      ...(options.priority !== undefined && options.priority !== 0 && { priority: options.priority }),
+      ...(options.coalesceKey !== undefined && { coalesceKey: options.coalesceKey }),
+      ...(options.metadata && { metadata: toJsonValue(options.metadata) as Record<string, unknown> }),
     };
 
     try {
+      // Replace or merge a queued request with the same coalesce key
+      if (options.coalesce) {
+        const coalesced = await coalesceEntry(this.storage, entry, options.coalesce);
+        if (coalesced) {
+          this.hooks.onPersist?.(coalesced);
+          return;
+        }
+      }
+
+      const victims = await this.selectQueueEvictions(entry);
+      
       await this.storage.put(entry);
+      this.replayEngine.entryAdded(entry);
+      await this.evictions;
       
       // Fire onPersist hook
       this.hooks.onPersist?.(entry);
+      
+      // Only drop entries once the new one is safely stored
+      for (const victim of victims) {
+        await this.storage.remove(victim.id);
+        this.hooks.onEvict?.(victim);
+        await this.blockDependentsOf(victim);
+      }
     } catch (error: unknown) {
       if (error instanceof PersistenceError) {
         throw error;
@@ -203,6 +410,26 @@ export class RequestLedger {
     }
   }
 
+  /**
+   * Apply the `maxEntries` limit of the entry's queue, if it has one.
+   * 
+   * @returns Entries to evict from the queue to make room
+   */
+  private async selectQueueEvictions(entry: LedgerEntry): Promise<LedgerEntry[]> {
+    const queueConfig = this.queues[entryQueue(entry)];
+    if (queueConfig?.maxEntries === undefined) {
+      return [];
+    }
+    
+    const queued = await queryStorage(this.storage, { queue: entryQueue(entry) });
+    return selectEvictions(
+      queued,
+      entry,
+      queueConfig.evictionPolicy ?? DEFAULT_EVICTION_POLICY,
+      { maxEntries: queueConfig.maxEntries, maxBytes: undefined }
+    );
+  }
+
   /**
    * Process pending entries in the ledger.
    * 
@@ -210,6 +437,13 @@ export class RequestLedger {
    */
   async process(options: ProcessOptions = {}): Promise<void> {
     this.ensureNotDestroyed();
+    
+    // Only the leader tab replays
+    if (!(await this.canProcess())) {
+      return;
+    }
+    
+    await this.evictions;
     await this.replayEngine.process(options);
   }
 
@@ -232,48 +466,101 @@ export class RequestLedger {
   /**
    * Clear all completed entries.
    * 
-   * Note: In this implementation, completed entries are automatically
-   * removed, so this is a no-op. Provided for API completeness.
+   * Completed entries are only kept with `retention` configured;
+   * otherwise they are removed on success and this is a no-op.
    */
   async clearCompleted(): Promise<void> {
     this.ensureNotDestroyed();
     
-    const entries = await this.storage.getAll();
-    for (const entry of entries) {
-      if (entry.status === 'completed') {
-        await this.storage.remove(entry.id);
-      }
+    const completed = await queryStorage(this.storage, { status: 'completed' });
+    for (const entry of completed) {
+      await this.storage.remove(entry.id);
     }
   }
 
+  /**
+   * Remove completed entries beyond the `retention` limits now,
+   * rather than waiting for the next `process()` run.
+   * 
+   * @returns The number of entries removed
+   */
+  async pruneCompleted(): Promise<number> {
+    this.ensureNotDestroyed();
+    return this.replayEngine.pruneCompleted();
+  }
+
   /**
    * Get the current state of the ledger.
    */
   async getState(): Promise<LedgerState> {
     this.ensureNotDestroyed();
+    
+    // Followers report the state of the tab actually replaying
+    if (this.stateRelay && !(await this.canProcess())) {
+      const leaderState = await this.stateRelay.request();
+      if (leaderState) {
+        return leaderState;
+      }
+    }
+    
     return this.replayEngine.getState();
   }
 
   /**
-   * List all entries in the ledger.
+   * Listen for changes to the ledger: every put, update, remove or clear,
+   * made in this tab or in another tab sharing the same store.
+   * 
+   * @param listener Called with each change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LedgerChangeListener): () => void {
+    this.ensureNotDestroyed();
+    return this.changes.subscribe(listener);
+  }
+
+  /**
+   * Whether this tab leads replay across tabs.
+   * Always true when multi-tab coordination is disabled.
+   */
+  isLeader(): boolean {
+    return this.elector?.isLeader ?? true;
+  }
+
+  /**
+   * List entries in the ledger, ordered by createdAt ascending, or in
+   * replay order with `orderBy: 'priority'`.
+   * 
+   * @param query Optional filter (status, idempotency key, pagination) and order
    */
-  async list(): Promise<LedgerEntry[]> {
+  async list(query?: ListQuery): Promise<LedgerEntry[]> {
     this.ensureNotDestroyed();
-    return this.storage.getAll();
+    if (!query) {
+      return this.storage.getAll();
+    }
+
+    const { orderBy, limit, ...filter } = query;
+    if (orderBy !== 'priority') {
+      return queryStorage(this.storage, { ...filter, ...(limit !== undefined && { limit }) });
+    }
+
+    const entries = (await queryStorage(this.storage, filter)).sort(comparePriority(this.priorityAgingMs));
+    return limit === undefined ? entries : entries.slice(0, limit);
   }
 
   /**
-   * Get a single entry by ID.
+   * Get a single entry by ID, or the entry a request with that ID was
+   * coalesced into.
    */
   async get(id: string): Promise<LedgerEntry | undefined> {
     this.ensureNotDestroyed();
-    return this.storage.get(id);
+    return await this.storage.get(id) ?? findCoalescedEntry(this.storage, id);
   }
 
   /**
    * Manually retry a failed entry.
    * 
    * This is useful when using the 'manual' retry strategy.
+   * Entries blocked by this one return to pending.
    * 
    * @param id The entry ID to retry
    */
@@ -289,11 +576,15 @@ export class RequestLedger {
       throw new Error(`Entry is not in failed state: ${id}`);
     }
     
-    // Reset status to pending and clear error
+    // Reset status to pending, due now, and clear error, unless it changed meanwhile
     await this.storage.update(id, {
       status: 'pending',
       error: undefined,
-    });
+      nextAttemptAt: undefined,
+    }, { expectedRevision: entryRevision(entry) });
+
+    // Entries blocked by this one may be sent again
+    await unblockDependents(this.storage, id);
   }
 
   /**
@@ -303,15 +594,92 @@ export class RequestLedger {
    */
   async remove(id: string): Promise<void> {
     this.ensureNotDestroyed();
+    
+    const entry = await this.storage.get(id);
     await this.storage.remove(id);
+    if (entry) {
+      await this.blockDependentsOf(entry);
+    }
   }
 
   /**
    * Clear all entries from the ledger.
+   * 
+   * Entries added meanwhile that depend on cleared ones are blocked.
    */
   async clear(): Promise<void> {
     this.ensureNotDestroyed();
+    
+    const entries = await this.storage.getAll();
     await this.storage.clear();
+    for (const entry of entries) {
+      await this.blockDependentsOf(entry);
+    }
+  }
+
+  /**
+   * Export every entry as a versioned, JSON-safe snapshot,
+   * e.g. to load a customer's queue into a test environment.
+   */
+  async export(): Promise<LedgerSnapshot> {
+    this.ensureNotDestroyed();
+    
+    const entries = await this.storage.getAll();
+    return createSnapshot(entries, { name: this.name, state: await this.getState() });
+  }
+
+  /**
+   * Import the entries of a snapshot created by `export()`.
+   * 
+   * @param snapshot The snapshot, typically parsed from JSON
+   * @param options How to handle entries whose ID already exists
+   * @throws LedgerError if the snapshot is malformed or its version unsupported
+   * @throws DuplicateEntryError on an existing ID with `onConflict: 'fail'`
+   */
+  async import(snapshot: LedgerSnapshot, options: ImportOptions = {}): Promise<ImportResult> {
+    this.ensureNotDestroyed();
+    
+    const { onConflict = 'fail' } = options;
+    const entries = readSnapshot(snapshot);
+    
+    const existing = new Set<string>();
+    for (const entry of entries) {
+      if (await this.storage.get(entry.id)) {
+        existing.add(entry.id);
+      }
+    }
+    
+    // Fail before writing anything, so a rejected import changes nothing
+    const [conflict] = existing;
+    if (onConflict === 'fail' && conflict !== undefined) {
+      throw new DuplicateEntryError(conflict);
+    }
+    
+    const result: ImportResult = { imported: 0, skipped: 0 };
+    for (const entry of entries) {
+      let replaced: LedgerEntry | undefined;
+      if (existing.has(entry.id)) {
+        if (onConflict === 'skip') {
+          result.skipped++;
+          continue;
+        }
+        replaced = await this.storage.get(entry.id);
+        await this.storage.remove(entry.id);
+      }
+      try {
+        await this.storage.put(entry);
+      } catch (error: unknown) {
+        // Keep the existing entry when its replacement cannot be stored
+        if (replaced) {
+          await this.storage.put(replaced);
+        }
+        throw error;
+      }
+      this.replayEngine.entryAdded(entry);
+      result.imported++;
+    }
+    
+    return result;
   }
 
   /**
@@ -325,6 +693,11 @@ export class RequestLedger {
     this.isDestroyed = true;
     this.replayEngine.pause();
     
+    // Hand leadership to another tab
+    this.elector?.stop();
+    this.stateRelay?.close();
+    this.changes.close();
+    
     // Remove online event listener
     if (this.onlineHandler && typeof window !== 'undefined') {
       window.removeEventListener('online', this.onlineHandler);
@@ -333,7 +706,7 @@ export class RequestLedger {
     
     // Close storage if it has a close method
     if ('close' in this.storage && typeof this.storage.close === 'function') {
-      (this.storage as { close: () => void }).close();
+      await (this.storage as { close: () => void | Promise<void> }).close();
     }
   }
 
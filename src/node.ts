@@ -0,0 +1,16 @@
+/**
+ * Request Ledger - Node.js Entry Point
+ * 
+ * Storage adapters for Node.js runtimes (Electron main processes,
+ * CLI agents) where IndexedDB is unavailable. Import from
+ * `request-ledger/node` so browser bundles never pull in `node:` modules.
+ * 
+ * @packageDocumentation
+ */
+
+// Storage adapters
+export { FileJournalStorage } from './storage/file-journal.js';
+export { SqliteStorage } from './storage/sqlite.js';
+
+// Types
+export type { FileJournalStorageConfig, SqliteStorageConfig } from './types.js';
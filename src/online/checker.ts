@@ -94,13 +94,38 @@ export function isNetworkError(error: unknown): boolean {
 }
 
 /**
- * Check if an HTTP status code indicates a retryable server error.
+ * Check if an HTTP status code indicates a retryable error.
  * 
- * Returns true for 5xx errors (server errors).
- * Returns false for 4xx errors (client errors - these should not be retried).
+ * Returns true for 5xx errors (server errors) and 429 (rate limited).
+ * Returns false for other 4xx errors (client errors - these should not be retried).
  */
 export function isRetryableStatusCode(status: number): boolean {
-  return status >= 500 && status < 600;
+  return (status >= 500 && status < 600) || status === 429;
+}
+
+/**
+ * Parse a Retry-After header value into a delay.
+ * 
+ * Accepts both forms the header allows: a number of seconds, or an
+ * HTTP-date. Dates in the past give a delay of 0.
+ * 
+ * @param value The header value
+ * @param now Current time in milliseconds since epoch
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  // HTTP-dates name the weekday and month; bare numbers like "-5" are not dates
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
 }
 
 /**
@@ -0,0 +1,35 @@
+/**
+ * Response Classification
+ *
+ * Decides whether a replayed request succeeded, should be retried or
+ * failed, based on its response.
+ */
+
+import type { LedgerEntry, ResponseOutcome } from '../types.js';
+import { isClientError, isRetryableStatusCode, parseRetryAfter } from '../online/checker.js';
+
+/**
+ * Default response classifier.
+ *
+ * - 5xx and 429 are retried, after the `Retry-After` delay when a 429 or
+ *   503 carries one
+ * - Other 4xx fail without retrying
+ * - Everything else succeeds
+ */
+export function defaultClassifyResponse(_entry: LedgerEntry, response: Response): ResponseOutcome {
+  if (isRetryableStatusCode(response.status)) {
+    if (response.status === 429 || response.status === 503) {
+      const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+      if (retryAfterMs !== undefined) {
+        return { retryAfterMs };
+      }
+    }
+    return 'retry';
+  }
+
+  if (isClientError(response.status)) {
+    return 'fail';
+  }
+
+  return 'success';
+}
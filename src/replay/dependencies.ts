@@ -0,0 +1,117 @@
+/**
+ * Entry Dependencies
+ *
+ * Entries may depend on other entries (`dependsOn`) and are only sent once
+ * those have succeeded. When a dependency fails, its dependents become
+ * `blocked`, and return to `pending` when it is retried.
+ */
+
+import type { EntryStatus, LedgerEntry, LedgerStorage } from '../types.js';
+import { ConcurrentModificationError, EntryNotFoundError } from '../types.js';
+import { entryRevision } from '../storage/entries.js';
+import { queryStorage } from '../storage/query.js';
+
+/**
+ * Whether an entry's dependencies allow sending it.
+ *
+ * - `ready`: Every dependency succeeded (completed, or removed on success)
+ * - `waiting`: A dependency has not been sent successfully yet
+ * - `blocked`: A dependency failed or is blocked itself
+ */
+export type DependencyState = 'ready' | 'waiting' | 'blocked';
+
+/**
+ * Check the state of an entry's dependencies.
+ *
+ * Entries no longer in the ledger count as succeeded, since successful
+ * entries are removed unless retention is configured.
+ */
+export async function dependencyState(
+  storage: LedgerStorage,
+  entry: Pick<LedgerEntry, 'dependsOn'>
+): Promise<DependencyState> {
+  let state: DependencyState = 'ready';
+
+  for (const id of entry.dependsOn ?? []) {
+    const dependency = await storage.get(id);
+    if (!dependency || dependency.status === 'completed') {
+      continue;
+    }
+    if (dependency.status === 'failed' || dependency.status === 'blocked') {
+      return 'blocked';
+    }
+    state = 'waiting';
+  }
+
+  return state;
+}
+
+/**
+ * Mark a pending entry and, transitively, its pending dependents as blocked.
+ */
+export async function blockEntry(storage: LedgerStorage, entry: LedgerEntry): Promise<void> {
+  if (await setStatus(storage, entry, 'blocked')) {
+    await blockDependents(storage, entry.id);
+  }
+}
+
+/**
+ * Mark the pending dependents of an entry, and theirs in turn, as blocked.
+ */
+export async function blockDependents(storage: LedgerStorage, id: string): Promise<void> {
+  // Breadth-first over dependents; each entry changes status at most once
+  const parents = [id];
+  while (parents.length > 0) {
+    const parent = parents.shift() as string;
+    for (const dependent of await dependentsOf(storage, parent, 'pending')) {
+      if (await setStatus(storage, dependent, 'blocked')) {
+        parents.push(dependent.id);
+      }
+    }
+  }
+}
+
+/**
+ * Return the blocked dependents of an entry, and theirs in turn, to
+ * pending. Dependents still blocked by another dependency stay blocked.
+ */
+export async function unblockDependents(storage: LedgerStorage, id: string): Promise<void> {
+  // Breadth-first over dependents; each entry changes status at most once
+  const parents = [id];
+  while (parents.length > 0) {
+    const parent = parents.shift() as string;
+    for (const dependent of await dependentsOf(storage, parent, 'blocked')) {
+      if (await dependencyState(storage, dependent) === 'blocked') {
+        continue;
+      }
+      if (await setStatus(storage, dependent, 'pending')) {
+        parents.push(dependent.id);
+      }
+    }
+  }
+}
+
+/**
+ * Entries with the given status that depend directly on an entry.
+ */
+async function dependentsOf(storage: LedgerStorage, id: string, status: EntryStatus): Promise<LedgerEntry[]> {
+  const entries = await queryStorage(storage, { status });
+  return entries.filter((entry) => entry.dependsOn?.includes(id));
+}
+
+/**
+ * Change an entry's status unless it changed meanwhile.
+ *
+ * @returns Whether the status was changed
+ */
+async function setStatus(storage: LedgerStorage, entry: LedgerEntry, status: EntryStatus): Promise<boolean> {
+  try {
+    await storage.update(entry.id, { status }, { expectedRevision: entryRevision(entry) });
+    return true;
+  } catch (error: unknown) {
+    if (error instanceof ConcurrentModificationError || error instanceof EntryNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -6,37 +6,149 @@
  */
 
 import type {
+  BatchTransport,
   LedgerEntry,
+  LedgerEntryPatch,
+  LedgerQuery,
   LedgerStorage,
   ProcessOptions,
+  QueueConfig,
+  ResponseSummary,
+  RetentionConfig,
   RetryStrategy,
   LedgerHooks,
   OnlineCheckFn,
   LedgerState,
+  ResponseClassifier,
+  ResponseOutcome,
 } from '../types.js';
-import { NetworkError } from '../types.js';
+import { BatchTransportError, ConcurrentModificationError, NetworkError } from '../types.js';
 import { isNetworkError, isRetryableStatusCode, isClientError } from '../online/checker.js';
+import { defaultClassifyResponse } from './classify.js';
+import { blockDependents, blockEntry, dependencyState } from './dependencies.js';
+import { orderingHeads } from './ordering.js';
+import { comparePriority, DEFAULT_PRIORITY_AGING_MS } from './priority.js';
 import { calculateBackoffDelay, delay, DEFAULT_RETRY_STRATEGY } from '../utils/backoff.js';
+import { DEFAULT_QUEUE, entryQueue, isDue, queryStorage } from '../storage/query.js';
+import { decodeBody, toFetchBody } from '../utils/body.js';
+import { compareEntries, entryRevision } from '../storage/entries.js';
 
 const DEFAULT_IDEMPOTENCY_HEADER = 'X-Idempotency-Key';
 
+/**
+ * Longest single wait for entries backing off, so pause() and stop()
+ * take effect promptly.
+ */
+const MAX_BACKOFF_WAIT_MS = 1000;
+
+/**
+ * Default number of entries per batch request.
+ */
+const DEFAULT_MAX_BATCH_SIZE = 50;
+
+/**
+ * Default cap on delays taken from Retry-After headers.
+ */
+const DEFAULT_MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Origin of a request URL, resolving relative URLs against the page.
+ * Relative URLs outside a browser share one key.
+ */
+function requestOrigin(url: string): string {
+  try {
+    return new URL(url, globalThis.location?.href).origin;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Response headers kept in a retained entry's response summary.
+ */
+const SUMMARY_HEADERS = ['content-type', 'location', 'etag'];
+
+/**
+ * Short description of a non-success status for entry errors.
+ */
+function describeStatus(status: number): string {
+  if (status === 429) {
+    return 'Rate limited';
+  }
+  if (isRetryableStatusCode(status)) {
+    return 'Server error';
+  }
+  return isClientError(status) ? 'Client error' : 'Unexpected response';
+}
+
+/**
+ * Whether a batch transport result can be handled like a fetch Response.
+ */
+function isResponse(value: unknown): value is Response {
+  return typeof value === 'object' && value !== null && typeof (value as Response).status === 'number';
+}
+
+/**
+ * Summarize a successful response for a retained entry.
+ */
+function summarizeResponse(response: Response): ResponseSummary {
+  const summary: ResponseSummary = { status: response.status };
+  if (response.statusText) {
+    summary.statusText = response.statusText;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of SUMMARY_HEADERS) {
+    const value = response.headers?.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  }
+  if (Object.keys(headers).length > 0) {
+    summary.headers = headers;
+  }
+
+  return summary;
+}
+
 export interface ReplayEngineConfig {
   storage: LedgerStorage;
   onlineCheck: OnlineCheckFn;
   retry: RetryStrategy;
   hooks: LedgerHooks;
   idempotencyHeader: string;
+  queues?: Record<string, QueueConfig>;
+  retention?: RetentionConfig;
+  maxRetryAfterMs?: number;
+  classifyResponse?: ResponseClassifier;
+  priorityAgingMs?: number;
+  batchTransport?: BatchTransport;
 }
 
 /**
  * The replay engine processes queued requests in order.
  * 
  * Key behaviors:
- * - Processes entries in insertion order (by createdAt)
+ * - Processes entries by priority, then insertion order (by createdAt),
+ *   with waiting entries gaining priority over time
+ * - Sends entries only once their `dependsOn` entries have succeeded, and
+ *   blocks them when one of those fails
+ * - Sends entries sharing an `orderingKey` one at a time, in order
+ * - Schedules retries with a persisted `nextAttemptAt`, skipping entries
+ *   that are not due yet instead of sleeping mid-batch
  * - Single processing loop at a time (no parallel process() calls)
  * - Crash-safe: marks stale 'processing' entries as 'pending' on start
- * - Respects concurrency limit
+ * - Respects concurrency limit, per queue
+ * - With a batch transport, sends eligible entries in batches, each
+ *   counting as one unit of concurrency
+ * - Decides success, retry or failure with `classifyResponse`, honoring
+ *   server-requested retry delays
+ * - Holds back every entry for an origin that answered 429 until its
+ *   retry time
  * - Stops on first error if stopOnError is true
+ * - Removes succeeded entries, or keeps them as 'completed' with retention
+ * - Changes status only with compare-and-set updates, so entries taken or
+ *   changed meanwhile by another tab or engine are left to it
  */
 export class ReplayEngine {
   private readonly storage: LedgerStorage;
@@ -44,6 +156,24 @@ export class ReplayEngine {
   private readonly retry: RetryStrategy;
   private readonly hooks: LedgerHooks;
   private readonly idempotencyHeader: string;
+  private readonly queues: Record<string, QueueConfig>;
+  private readonly retention: RetentionConfig | undefined;
+  private readonly maxRetryAfterMs: number;
+  private readonly classifyResponse: ResponseClassifier;
+  private readonly priorityAgingMs: number;
+  private readonly batchTransport: BatchTransport | undefined;
+  
+  /** Rate-limited origins and when they may be sent to again */
+  private readonly throttles = new Map<string, number>();
+  
+  /** Queues with unfinished entries that have a priority; undefined until checked */
+  private prioritizedQueues: Set<string> | undefined;
+  
+  /** Ordering key heads, loaded at most once per loop iteration */
+  private heads: Promise<Map<string, string>> | undefined;
+  
+  /** Entries this engine claimed and has not settled yet, with their claim time */
+  private readonly claims = new Map<string, number>();
   
   private isProcessing = false;
   private isPaused = false;
@@ -56,6 +186,12 @@ export class ReplayEngine {
     this.retry = config.retry;
     this.hooks = config.hooks;
     this.idempotencyHeader = config.idempotencyHeader;
+    this.queues = config.queues ?? {};
+    this.retention = config.retention;
+    this.maxRetryAfterMs = config.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+    this.classifyResponse = config.classifyResponse ?? defaultClassifyResponse;
+    this.priorityAgingMs = config.priorityAgingMs ?? DEFAULT_PRIORITY_AGING_MS;
+    this.batchTransport = config.batchTransport;
   }
 
   /**
@@ -74,10 +210,9 @@ export class ReplayEngine {
       return 'error';
     }
     
-    const entries = await this.storage.getAll();
-    const hasPending = entries.some(e => e.status === 'pending' || e.status === 'processing');
+    const active = await queryStorage(this.storage, { status: ['pending', 'processing'], limit: 1 });
     
-    return hasPending ? 'pending' : 'idle';
+    return active.length > 0 ? 'pending' : 'idle';
   }
 
   /**
@@ -88,6 +223,7 @@ export class ReplayEngine {
   async process(options: ProcessOptions = {}): Promise<void> {
     const {
       concurrency = 1,
+      queue,
       stopOnError = true,
       onSuccess,
       onFailure,
@@ -106,8 +242,13 @@ export class ReplayEngine {
       // Crash recovery: mark any 'processing' entries as 'pending'
       await this.recoverStaleEntries();
 
+      const queues = queue !== undefined ? [queue] : await this.activeQueues();
+      this.prioritizedQueues = undefined;
+
       // Process loop
       while (!this.isPaused && !this.abortController.signal.aborted) {
+        this.heads = undefined;
+
         // Check if we're online
         const online = await this.onlineCheck();
         if (!online) {
@@ -116,19 +257,21 @@ export class ReplayEngine {
           continue;
         }
 
-        // Get pending entries
-        const entries = await this.storage.getAll();
-        const pending = entries.filter(e => e.status === 'pending');
+        // Get up to 'concurrency' due pending entries from each queue
+        const batch = await this.nextBatch(queues, concurrency);
 
-        if (pending.length === 0) {
-          break;
+        if (batch.length === 0) {
+          // Wait for entries backing off, if any
+          const dueAt = await this.nextDueAt(queues);
+          if (dueAt === undefined) {
+            break;
+          }
+          await delay(Math.min(Math.max(dueAt - Date.now(), 0), MAX_BACKOFF_WAIT_MS));
+          continue;
         }
 
-        // Process up to 'concurrency' entries in parallel
-        const batch = pending.slice(0, concurrency);
-        const results = await Promise.allSettled(
-          batch.map(entry => this.processEntry(entry))
-        );
+        // Process the batch in parallel
+        const results = await Promise.allSettled(this.dispatch(batch));
 
         // Handle results
         let hasError = false;
@@ -139,9 +282,13 @@ export class ReplayEngine {
           if (!entry || !result) continue;
 
           if (result.status === 'fulfilled') {
-            // Entry processed successfully
-            await this.storage.remove(entry.id);
-            onSuccess?.(entry);
+            // Entry processed successfully, unless another engine claimed it first
+            if (result.value) {
+              onSuccess?.(entry);
+            }
+          } else if (result.reason instanceof ConcurrentModificationError) {
+            // The entry changed mid-flight and its status now belongs to whoever changed it
+            continue;
           } else {
             // Entry failed
             hasError = true;
@@ -167,89 +314,212 @@ export class ReplayEngine {
           break;
         }
       }
+
+      await this.pruneCompleted();
     } finally {
       this.isProcessing = false;
       this.abortController = null;
     }
   }
 
+  /**
+   * Start processing a batch of entries: batchable entries through the
+   * batch transport, the rest individually.
+   *
+   * @returns One promise per entry, in order, as from processEntry
+   */
+  private dispatch(batch: LedgerEntry[]): Array<Promise<boolean>> {
+    const transport = this.batchTransport;
+    if (!transport) {
+      return batch.map((entry) => this.processEntry(entry));
+    }
+
+    const size = this.maxBatchSize();
+    const batchable = batch.filter((entry) => this.isBatchable(entry));
+    const pending = new Map<LedgerEntry, Promise<boolean>>();
+    for (let i = 0; i < batchable.length; i += size) {
+      const chunk = batchable.slice(i, i + size);
+      this.processBatch(transport, chunk).forEach((result, j) => pending.set(chunk[j] as LedgerEntry, result));
+    }
+
+    return batch.map((entry) => pending.get(entry) ?? this.processEntry(entry));
+  }
+
   /**
    * Process a single entry.
    * 
    * @param entry The entry to process
+   * @returns Whether the entry was sent; false if another engine claimed it first
    * @throws Error if processing fails
    */
-  private async processEntry(entry: LedgerEntry): Promise<void> {
-    // Mark as processing
-    await this.storage.update(entry.id, {
-      status: 'processing',
-      lastAttemptAt: Date.now(),
-      attemptCount: entry.attemptCount + 1,
-    });
+  private async processEntry(entry: LedgerEntry): Promise<boolean> {
+    const revision = await this.claim(entry);
+    if (revision === undefined) {
+      return false;
+    }
 
-    // Fire replay start hook
-    this.hooks.onReplayStart?.(entry);
+    await this.settle(entry, revision, () => this.send(entry));
+    return true;
+  }
 
-    try {
-      // Build the request
-      const headers = new Headers(entry.request.headers);
-      
-      // Add idempotency key if present
-      if (entry.idempotencyKey) {
-        headers.set(this.idempotencyHeader, entry.idempotencyKey);
+  /**
+   * Process entries through one batch transport request. Each entry's
+   * response is then handled as in processEntry.
+   *
+   * @returns One promise per entry, in order, as from processEntry
+   */
+  private processBatch(transport: BatchTransport, entries: LedgerEntry[]): Array<Promise<boolean>> {
+    const claims = entries.map((entry) => this.claim(entry));
+
+    // Entries whose claim failed are left out; their own promise reports the error
+    const revisions = Promise.all(claims.map((claim) => claim.catch(() => undefined)));
+    const responses = revisions.then(async (revisions) => {
+      const claimed = entries.filter((_, i) => revisions[i] !== undefined);
+      if (claimed.length === 0) {
+        return new Map<string, unknown>();
       }
 
-      // Determine body
-      let body: string | undefined;
-      if (entry.request.body !== undefined && entry.request.body !== null) {
-        body = JSON.stringify(entry.request.body);
-        if (!headers.has('Content-Type')) {
-          headers.set('Content-Type', 'application/json');
+      let results: unknown;
+      try {
+        results = await transport.send(claimed, this.abortController?.signal);
+      } catch (error: unknown) {
+        if (isNetworkError(error)) {
+          throw error;
         }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new BatchTransportError(`Batch transport failed: ${message}`, error instanceof Error ? error : undefined);
+      }
+
+      if (!Array.isArray(results) || results.length !== claimed.length) {
+        const count = Array.isArray(results) ? results.length : 'no';
+        throw new BatchTransportError(`Batch transport returned ${count} results for ${claimed.length} entries`);
+      }
+      return new Map(claimed.map((entry, i): [string, unknown] => [entry.id, results[i]]));
+    });
+    // Failures surface through each entry's promise below
+    responses.catch(() => undefined);
+
+    return entries.map(async (entry, i) => {
+      const revision = await claims[i];
+      if (revision === undefined) {
+        return false;
       }
 
-      // Make the request
-      const response = await fetch(entry.request.url, {
-        method: entry.request.method,
-        headers,
-        body,
-        signal: this.abortController?.signal,
+      await this.settle(entry, revision, async () => {
+        const response = (await responses).get(entry.id);
+        if (!isResponse(response)) {
+          throw new BatchTransportError(`Batch transport returned no response for entry: ${entry.id}`);
+        }
+        return response;
       });
+      return true;
+    });
+  }
 
-      // Check for client errors (4xx) - not retryable
-      if (isClientError(response.status)) {
-        const error = new Error(`HTTP ${response.status}: Client error`);
-        await this.markAsFailed(entry, error, response.status.toString());
-        this.hooks.onReplayFailure?.(entry, error);
-        throw error;
+  /**
+   * Claim an entry by marking it as processing, and fire onReplayStart.
+   *
+   * @returns The entry's new revision, or undefined if another engine claimed it first
+   */
+  private async claim(entry: LedgerEntry): Promise<number | undefined> {
+    const claimedAt = Date.now();
+    let revision: number;
+    try {
+      revision = await this.transition(entry.id, entryRevision(entry), {
+        status: 'processing',
+        lastAttemptAt: claimedAt,
+        nextAttemptAt: undefined,
+        attemptCount: entry.attemptCount + 1,
+      });
+    } catch (error: unknown) {
+      if (error instanceof ConcurrentModificationError) {
+        return undefined;
       }
+      throw error;
+    }
+    this.claims.set(entry.id, claimedAt);
+
+    // Fire replay start hook
+    this.hooks.onReplayStart?.(entry);
+    return revision;
+  }
+
+  /**
+   * Send an entry's request on its own.
+   */
+  private async send(entry: LedgerEntry): Promise<Response> {
+    // Build the request
+    const headers = new Headers(entry.request.headers);
+    
+    // Add idempotency key if present
+    if (entry.idempotencyKey) {
+      headers.set(this.idempotencyHeader, entry.idempotencyKey);
+    }
+
+    // Rebuild the body in its original encoding
+    const { body: decoded, kind } = decodeBody(entry.request);
+    const body = toFetchBody(decoded, kind, headers);
+
+    // Make the request
+    return fetch(entry.request.url, {
+      method: entry.request.method,
+      headers,
+      body,
+      signal: this.abortController?.signal,
+    });
+  }
+
+  /**
+   * Complete, retry or fail a claimed entry based on its response.
+   *
+   * @param request Obtains the entry's response
+   * @throws Error if the entry was not delivered
+   */
+  private async settle(entry: LedgerEntry, revision: number, request: () => Promise<Response>): Promise<void> {
+    try {
+      const response = await request();
 
-      // Check for server errors (5xx) - retryable
-      if (isRetryableStatusCode(response.status)) {
+      // Decide between success, retry and failure
+      const outcome = await this.classify(entry, revision, response);
+
+      if (outcome !== 'success' && outcome !== 'fail') {
         const canRetryMore = this.canRetryEntry(entry);
+        const retryAfterMs = outcome === 'retry'
+          ? undefined
+          : Math.min(Math.max(outcome.retryAfterMs, 0), this.maxRetryAfterMs);
+        const reason = describeStatus(response.status);
         
         if (canRetryMore) {
-          // Mark back as pending for retry
-          await this.storage.update(entry.id, { status: 'pending' });
-          
-          // Wait for backoff delay
-          const backoffDelay = calculateBackoffDelay(this.retry, entry.attemptCount + 1);
-          if (backoffDelay !== null) {
-            await delay(backoffDelay);
+          // Mark back as pending, due after the backoff delay or Retry-After
+          const dueAt = await this.scheduleRetry(entry, revision, retryAfterMs);
+          if (response.status === 429) {
+            this.throttle(entry, dueAt);
           }
           
-          throw new Error(`HTTP ${response.status}: Server error, will retry`);
+          throw new Error(`HTTP ${response.status}: ${reason}, will retry`);
         } else {
           // No more retries, mark as failed
-          const error = new Error(`HTTP ${response.status}: Server error, max retries exceeded`);
-          await this.markAsFailed(entry, error, response.status.toString());
+          if (response.status === 429 && retryAfterMs !== undefined) {
+            this.throttle(entry, Date.now() + retryAfterMs);
+          }
+          const error = new Error(`HTTP ${response.status}: ${reason}, max retries exceeded`);
+          await this.markAsFailed(entry, revision, error, response.status.toString());
           this.hooks.onReplayFailure?.(entry, error);
           throw error;
         }
       }
 
+      // Not retryable
+      if (outcome === 'fail') {
+        const error = new Error(`HTTP ${response.status}: ${describeStatus(response.status)}`);
+        await this.markAsFailed(entry, revision, error, response.status.toString());
+        this.hooks.onReplayFailure?.(entry, error);
+        throw error;
+      }
+
       // Success! Fire success hook
       this.hooks.onReplaySuccess?.(entry, response);
+      await this.complete(entry, revision, response);
       
     } catch (error: unknown) {
       // Check if it's a network error
@@ -257,29 +527,32 @@ export class ReplayEngine {
         const canRetryMore = this.canRetryEntry(entry);
         
         if (canRetryMore) {
-          // Mark back as pending for retry
-          await this.storage.update(entry.id, { status: 'pending' });
-          
-          // Wait for backoff delay
-          const backoffDelay = calculateBackoffDelay(this.retry, entry.attemptCount + 1);
-          if (backoffDelay !== null) {
-            await delay(backoffDelay);
-          }
+          // Mark back as pending, due after the backoff delay
+          await this.scheduleRetry(entry, revision);
         } else {
           // No more retries, mark as failed
           const networkError = new NetworkError(
             'Network error, max retries exceeded',
             error instanceof Error ? error : undefined
           );
-          await this.markAsFailed(entry, networkError, 'NETWORK_ERROR');
+          await this.markAsFailed(entry, revision, networkError, 'NETWORK_ERROR');
           this.hooks.onReplayFailure?.(entry, networkError);
         }
         
         throw error;
       }
+
+      // A batch transport that failed or returned malformed results
+      if (error instanceof BatchTransportError) {
+        await this.markAsFailed(entry, revision, error, 'BATCH_ERROR');
+        this.hooks.onReplayFailure?.(entry, error);
+        throw error;
+      }
       
       // Re-throw other errors (they were already handled above)
       throw error;
+    } finally {
+      this.claims.delete(entry.id);
     }
   }
 
@@ -287,10 +560,335 @@ export class ReplayEngine {
    * Check if entry can be retried based on retry strategy.
    */
   private canRetryEntry(entry: LedgerEntry): boolean {
-    if (this.retry.type === 'manual') {
+    const retry = this.retryFor(entry);
+    if (retry.type === 'manual') {
       return false; // Manual retries don't auto-retry
     }
-    return entry.attemptCount + 1 < this.retry.maxAttempts;
+    return entry.attemptCount + 1 < retry.maxAttempts;
+  }
+
+  /**
+   * Retry strategy for an entry's queue.
+   */
+  private retryFor(entry: LedgerEntry): RetryStrategy {
+    return this.queues[entryQueue(entry)]?.retry ?? this.retry;
+  }
+
+  /**
+   * Queues to schedule when processing all queues, or undefined when no
+   * queue has its own settings and entries can be taken in one query.
+   */
+  private async activeQueues(): Promise<string[] | undefined> {
+    const configured = Object.keys(this.queues);
+    if (configured.length === 0) {
+      return undefined;
+    }
+
+    const names = new Set([DEFAULT_QUEUE, ...configured]);
+    for (const entry of await queryStorage(this.storage, { status: 'pending' })) {
+      names.add(entryQueue(entry));
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Take the next pending entries: up to each queue's concurrency from
+   * every scheduled queue, in priority order within a queue. With a batch
+   * transport, a full batch of batchable entries counts as one.
+   *
+   * Queues without priorities replay in createdAt order, so only their
+   * head is loaded unless entries there must wait.
+   */
+  private async nextBatch(queues: string[] | undefined, concurrency: number): Promise<LedgerEntry[]> {
+    const now = Date.now();
+    for (const [origin, until] of this.throttles) {
+      if (until <= now) {
+        this.throttles.delete(origin);
+      }
+    }
+
+    const prioritized = await this.findPrioritizedQueues();
+    const take = async (query: LedgerQuery, limit: number): Promise<LedgerEntry[]> => {
+      const pending: LedgerQuery = { ...query, status: 'pending', dueBy: now };
+      if (query.queue === undefined ? prioritized.size > 0 : prioritized.has(query.queue)) {
+        // Priorities can put any due entry first, so consider them all
+        const entries = await queryStorage(this.storage, pending);
+        return this.readyEntries(entries.sort(comparePriority(this.priorityAgingMs)), now, limit);
+      }
+
+      const headLimit = limit * (this.batchTransport ? this.maxBatchSize() : 1);
+      const head = await queryStorage(this.storage, { ...pending, limit: headLimit });
+      const ready = await this.readyEntries(head, now, limit);
+      if (ready.length === head.length || head.length < headLimit) {
+        return ready;
+      }
+
+      // Some entries at the head must wait; look past them
+      return this.readyEntries(await queryStorage(this.storage, pending), now, limit);
+    };
+
+    if (!queues) {
+      return take({}, concurrency);
+    }
+
+    const batches = await Promise.all(queues.map((name) => (
+      take({ queue: name }, this.queues[name]?.concurrency ?? concurrency)
+    )));
+    return batches.flat();
+  }
+
+  /**
+   * Note an entry added to the ledger, so replay honors its priority.
+   * Without the entry (e.g. one added by another tab), queues are checked
+   * for priorities again.
+   */
+  entryAdded(entry?: LedgerEntry): void {
+    if (!entry) {
+      this.prioritizedQueues = undefined;
+    } else if (entry.priority) {
+      this.prioritizedQueues?.add(entryQueue(entry));
+    }
+  }
+
+  /**
+   * Queues with unfinished entries that have a priority. Entries only get
+   * a priority when added, so this is loaded once per run and kept up to
+   * date by entryAdded.
+   */
+  private async findPrioritizedQueues(): Promise<Set<string>> {
+    if (this.prioritizedQueues) {
+      return this.prioritizedQueues;
+    }
+
+    // Set before loading, so entries added meanwhile are noted too
+    const queues = new Set<string>();
+    this.prioritizedQueues = queues;
+    for (const entry of await queryStorage(this.storage, { status: ['pending', 'processing', 'failed', 'blocked'] })) {
+      if (entry.priority) {
+        queues.add(entryQueue(entry));
+      }
+    }
+    return queues;
+  }
+
+  /**
+   * First unfinished entry per ordering key, loaded at most once per loop
+   * iteration.
+   */
+  private orderingHeads(): Promise<Map<string, string>> {
+    this.heads ??= orderingHeads(this.storage);
+    return this.heads;
+  }
+
+  /**
+   * Earliest time a pending entry in the scheduled queues becomes due,
+   * or undefined when nothing is pending.
+   */
+  private async nextDueAt(queues: string[] | undefined): Promise<number | undefined> {
+    const pending = queues
+      ? (await Promise.all(queues.map((name) => queryStorage(this.storage, { queue: name, status: 'pending' })))).flat()
+      : await queryStorage(this.storage, { status: 'pending' });
+
+    let earliest: number | undefined;
+    let heads: Map<string, string> | undefined;
+    for (const entry of pending) {
+      // Entries waiting on dependencies or earlier entries for their key become due when those complete
+      if (entry.orderingKey !== undefined) {
+        heads ??= await this.orderingHeads();
+        if (heads.get(entry.orderingKey) !== entry.id) {
+          continue;
+        }
+      }
+      if (entry.dependsOn?.length && await dependencyState(this.storage, entry) !== 'ready') {
+        continue;
+      }
+      earliest = Math.min(earliest ?? Infinity, Math.max(entry.nextAttemptAt ?? 0, this.availableAt(entry)));
+    }
+    return earliest;
+  }
+
+  /**
+   * Filter entries down to those that can be sent now: due, not held back
+   * by a rate-limited origin or an earlier entry for their ordering key,
+   * and with every dependency succeeded. Entries whose dependencies failed
+   * are marked as blocked.
+   */
+  private async readyEntries(entries: LedgerEntry[], now: number, concurrency: number): Promise<LedgerEntry[]> {
+    const ready: LedgerEntry[] = [];
+    let heads: Map<string, string> | undefined;
+
+    // Count in batch slots: a batchable entry takes one, a request of its own a whole batch
+    const size = this.batchTransport ? this.maxBatchSize() : 1;
+    const limit = concurrency * size;
+    let used = 0;
+
+    for (const entry of entries) {
+      const cost = this.isBatchable(entry) ? 1 : size;
+      if (used + cost > limit) {
+        break;
+      }
+      // Custom adapters may not support dueBy
+      if (!isDue(entry, now) || this.availableAt(entry) > now) {
+        continue;
+      }
+      if (entry.orderingKey !== undefined) {
+        heads ??= await this.orderingHeads();
+        if (heads.get(entry.orderingKey) !== entry.id) {
+          continue;
+        }
+      }
+
+      const dependencies = entry.dependsOn?.length ? await dependencyState(this.storage, entry) : 'ready';
+      if (dependencies === 'blocked') {
+        await blockEntry(this.storage, entry);
+      } else if (dependencies === 'ready') {
+        ready.push(entry);
+        used += cost;
+      }
+    }
+
+    return ready;
+  }
+
+  /**
+   * Most entries per batch request.
+   */
+  private maxBatchSize(): number {
+    return Math.max(1, this.batchTransport?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+  }
+
+  /**
+   * Whether an entry is sent through the batch transport.
+   */
+  private isBatchable(entry: LedgerEntry): boolean {
+    const transport = this.batchTransport;
+    return transport !== undefined && (transport.eligible?.(entry) ?? true);
+  }
+
+  /**
+   * Time the entry's origin may be sent to again; 0 when not throttled.
+   */
+  private availableAt(entry: LedgerEntry): number {
+    return this.throttles.get(requestOrigin(entry.request.url)) ?? 0;
+  }
+
+  /**
+   * Hold back every entry for the entry's origin until `until`.
+   */
+  private throttle(entry: LedgerEntry, until: number): void {
+    const origin = requestOrigin(entry.request.url);
+    this.throttles.set(origin, Math.max(this.throttles.get(origin) ?? 0, until));
+  }
+
+  /**
+   * Classify a response with the configured classifier. An entry whose
+   * response cannot be classified is marked as failed.
+   *
+   * Custom classifiers get a clone, so the body is still unread for hooks.
+   */
+  private async classify(entry: LedgerEntry, revision: number, response: Response): Promise<ResponseOutcome> {
+    try {
+      const copy = this.classifyResponse === defaultClassifyResponse ? response : response.clone();
+      return await this.classifyResponse(entry, copy);
+    } catch (error: unknown) {
+      const classifyError = error instanceof Error ? error : new Error(String(error));
+      await this.markAsFailed(entry, revision, classifyError, 'CLASSIFY_ERROR');
+      this.hooks.onReplayFailure?.(entry, classifyError);
+      throw classifyError;
+    }
+  }
+
+  /**
+   * Return an entry to 'pending', due once its backoff delay, and any
+   * server-requested delay, has passed. The due time is persisted, so the
+   * backoff survives reloads.
+   *
+   * @returns The time the entry is due
+   */
+  private async scheduleRetry(entry: LedgerEntry, revision: number, minDelayMs = 0): Promise<number> {
+    // The previous attempt was scheduled this long after it started
+    const previousDelay = entry.nextAttemptAt !== undefined && entry.lastAttemptAt !== undefined
+      ? Math.max(entry.nextAttemptAt - entry.lastAttemptAt, 0)
+      : undefined;
+    const backoffDelay = calculateBackoffDelay(this.retryFor(entry), entry.attemptCount + 1, previousDelay);
+    const dueAt = Date.now() + Math.max(backoffDelay ?? 0, minDelayMs);
+    await this.transition(entry.id, revision, {
+      status: 'pending',
+      ...((backoffDelay !== null || minDelayMs > 0) && { nextAttemptAt: dueAt }),
+    });
+    return dueAt;
+  }
+
+  /**
+   * Update an entry only if it is still at `revision`, so changes made
+   * meanwhile by another tab or engine are never overwritten.
+   * 
+   * @returns The entry's new revision
+   * @throws ConcurrentModificationError if the entry changed since
+   */
+  private async transition(id: string, revision: number, patch: LedgerEntryPatch): Promise<number> {
+    try {
+      await this.storage.update(id, patch, { expectedRevision: revision });
+      return revision + 1;
+    } catch (error: unknown) {
+      if (!(error instanceof ConcurrentModificationError)) {
+        throw error;
+      }
+
+      // An entry still under this engine's claim was only changed alongside
+      // it (e.g. re-encrypted), so its outcome is still this engine's to record
+      const current = await this.storage.get(id);
+      const claimedAt = this.claims.get(id);
+      if (!current || current.status !== 'processing' || claimedAt === undefined || current.lastAttemptAt !== claimedAt) {
+        throw error;
+      }
+      return this.transition(id, entryRevision(current), patch);
+    }
+  }
+
+  /**
+   * Remove a succeeded entry, or keep it as 'completed' when retaining history.
+   */
+  private async complete(entry: LedgerEntry, revision: number, response: Response): Promise<void> {
+    if (!this.retention) {
+      await this.storage.remove(entry.id);
+      return;
+    }
+
+    await this.transition(entry.id, revision, {
+      status: 'completed',
+      completedAt: Date.now(),
+      response: summarizeResponse(response),
+    });
+  }
+
+  /**
+   * Remove completed entries beyond the retention limits.
+   * 
+   * @returns The number of entries removed
+   */
+  async pruneCompleted(): Promise<number> {
+    if (!this.retention) {
+      return 0;
+    }
+
+    const { maxAgeMs, maxCount } = this.retention;
+    const now = Date.now();
+    const completedAt = (entry: LedgerEntry) => entry.completedAt ?? entry.createdAt;
+
+    // Most recently completed first; ties go to the newer entry
+    const completed = (await queryStorage(this.storage, { status: 'completed' }))
+      .sort((a, b) => completedAt(b) - completedAt(a) || compareEntries(b, a));
+
+    const expired = completed.filter((entry, index) =>
+      (maxCount !== undefined && index >= maxCount) ||
+      (maxAgeMs !== undefined && now - completedAt(entry) > maxAgeMs)
+    );
+
+    for (const entry of expired) {
+      await this.storage.remove(entry.id);
+    }
+    return expired.length;
   }
 
   /**
@@ -298,16 +896,20 @@ export class ReplayEngine {
    */
   private async markAsFailed(
     entry: LedgerEntry,
+    revision: number,
     error: Error,
     code?: string
   ): Promise<void> {
-    await this.storage.update(entry.id, {
+    await this.transition(entry.id, revision, {
       status: 'failed',
       error: {
         message: error.message,
         code,
       },
     });
+
+    // Entries depending on this one can no longer be sent
+    await blockDependents(this.storage, entry.id);
   }
 
   /**
@@ -317,11 +919,16 @@ export class ReplayEngine {
    * processing, entries would be stuck in 'processing' state.
    */
   private async recoverStaleEntries(): Promise<void> {
-    const entries = await this.storage.getAll();
+    const stale = await queryStorage(this.storage, { status: 'processing' });
     
-    for (const entry of entries) {
-      if (entry.status === 'processing') {
-        await this.storage.update(entry.id, { status: 'pending' });
+    for (const entry of stale) {
+      try {
+        await this.transition(entry.id, entryRevision(entry), { status: 'pending' });
+      } catch (error: unknown) {
+        // Changed since the query, so it is not stale
+        if (!(error instanceof ConcurrentModificationError)) {
+          throw error;
+        }
       }
     }
   }
@@ -334,6 +941,14 @@ export class ReplayEngine {
     this.abortController?.abort();
   }
 
+  /**
+   * Stop the current processing run without pausing.
+   * In-flight requests are aborted; later process() calls run normally.
+   */
+  stop(): void {
+    this.abortController?.abort();
+  }
+
   /**
    * Resume processing.
    */
@@ -0,0 +1,32 @@
+/**
+ * Ordering Keys
+ *
+ * Entries sharing an `orderingKey` are sent one at a time, in createdAt
+ * order. An entry that has not succeeded holds back the later entries for
+ * its key, also while it is failed or blocked, so they never overtake it.
+ */
+
+import type { EntryStatus, LedgerStorage } from '../types.js';
+import { queryStorage } from '../storage/query.js';
+
+/**
+ * Statuses of entries that hold back later entries with the same key.
+ */
+const UNFINISHED_STATUSES: EntryStatus[] = ['pending', 'processing', 'failed', 'blocked'];
+
+/**
+ * Find the first unfinished entry for each ordering key; only it may be sent.
+ *
+ * @returns Map of ordering key to the ID of its first unfinished entry
+ */
+export async function orderingHeads(storage: LedgerStorage): Promise<Map<string, string>> {
+  const heads = new Map<string, string>();
+
+  for (const entry of await queryStorage(storage, { status: UNFINISHED_STATUSES })) {
+    if (entry.orderingKey !== undefined && !heads.has(entry.orderingKey)) {
+      heads.set(entry.orderingKey, entry.id);
+    }
+  }
+
+  return heads;
+}
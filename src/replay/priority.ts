@@ -0,0 +1,32 @@
+/**
+ * Entry Priority
+ *
+ * Replay sends higher-priority entries first. Waiting raises an entry's
+ * effective priority, so low-priority entries are never starved forever.
+ */
+
+import type { LedgerEntry } from '../types.js';
+import { compareEntries } from '../storage/entries.js';
+
+/**
+ * Default waiting time that counts as one priority step.
+ */
+export const DEFAULT_PRIORITY_AGING_MS = 60_000;
+
+/**
+ * Comparator ordering entries by effective priority, highest first, then
+ * by createdAt and ID.
+ *
+ * Every `agingMs` an entry has waited counts as one priority step, so an
+ * entry created `agingMs` earlier than another ranks with it despite a
+ * priority one lower. Pass Infinity to disable aging.
+ */
+export function comparePriority(
+  agingMs: number = DEFAULT_PRIORITY_AGING_MS
+): (a: LedgerEntry, b: LedgerEntry) => number {
+  return (a, b) => {
+    const priority = (b.priority ?? 0) - (a.priority ?? 0);
+    const rank = Number.isFinite(agingMs) ? priority * agingMs + (a.createdAt - b.createdAt) : priority;
+    return rank || compareEntries(a, b);
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Request Coalescing
+ *
+ * Replaces or merges a queued request with a newer one sharing its
+ * `coalesceKey`, so repeated edits made offline replay as one request.
+ */
+
+import type { CoalescePolicy, LedgerEntry, LedgerStorage } from '../types.js';
+import { ConcurrentModificationError, EntryNotFoundError } from '../types.js';
+import { entryRevision } from './entries.js';
+import { queryStorage } from './query.js';
+
+/**
+ * Find the queued entry a request with this key would coalesce into: the
+ * newest pending entry with the key that was never attempted. Entries
+ * attempted before may already have reached the server, so they are left
+ * alone.
+ */
+export async function findCoalesceTarget(
+  storage: LedgerStorage,
+  coalesceKey: string
+): Promise<LedgerEntry | undefined> {
+  const candidates = (await queryStorage(storage, { status: 'pending' }))
+    .filter((entry) => entry.coalesceKey === coalesceKey && entry.attemptCount === 0);
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Coalesce a new entry into the queued one with the same key.
+ *
+ * The queued entry keeps its ID, position and other fields; only its
+ * request changes, and the new entry's ID is recorded in its
+ * `coalescedIds`. The update is compare-and-set, so an entry claimed for
+ * processing meanwhile is never touched.
+ *
+ * @returns The updated queued entry, or undefined if there was none to
+ *   coalesce into and the new entry must be stored
+ */
+export async function coalesceEntry(
+  storage: LedgerStorage,
+  entry: LedgerEntry,
+  policy: CoalescePolicy
+): Promise<LedgerEntry | undefined> {
+  if (entry.coalesceKey === undefined) {
+    return undefined;
+  }
+
+  const target = await findCoalesceTarget(storage, entry.coalesceKey);
+  if (!target) {
+    return undefined;
+  }
+
+  const request = policy === 'last-write-wins' ? entry.request : policy(target.request, entry.request);
+  const coalescedIds = [...(target.coalescedIds ?? []), entry.id];
+  try {
+    await storage.update(target.id, { request, coalescedIds }, { expectedRevision: entryRevision(target) });
+  } catch (error: unknown) {
+    if (error instanceof ConcurrentModificationError || error instanceof EntryNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+
+  return { ...target, request, coalescedIds, revision: entryRevision(target) + 1 };
+}
+
+/**
+ * Find the entry a request was coalesced into, by the request's ID.
+ */
+export async function findCoalescedEntry(storage: LedgerStorage, id: string): Promise<LedgerEntry | undefined> {
+  return (await queryStorage(storage, {})).find((entry) => entry.coalescedIds?.includes(id));
+}
@@ -0,0 +1,335 @@
+/**
+ * Encrypted Storage Wrapper
+ *
+ * Wraps any LedgerStorage and encrypts each entry's request and metadata
+ * with AES-GCM (WebCrypto) before it reaches the underlying adapter.
+ *
+ * Status, timestamps, attempt count, error and idempotency key stay in
+ * plaintext so adapters can keep indexing and evicting entries.
+ */
+
+import type {
+  EncryptedStorageConfig,
+  EncryptionKeyProvider,
+  LedgerEntry,
+  LedgerEntryPatch,
+  LedgerQuery,
+  LedgerStorage,
+  StoredRequest,
+  UpdateOptions,
+} from '../types.js';
+import { ConcurrentModificationError, EncryptionError, EntryNotFoundError } from '../types.js';
+import { applyPatch, entryRevision, serializeBody, deserializeBody } from './entries.js';
+import { queryStorage } from './query.js';
+import { toBase64, fromBase64 } from '../utils/base64.js';
+
+const ALGORITHM = 'AES-GCM';
+const IV_LENGTH = 12;
+const DEFAULT_KEY_ID = 'default';
+
+/**
+ * Placeholder URL marking a stored request whose contents are encrypted.
+ */
+const ENCRYPTED_URL = 'request-ledger:encrypted';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Ciphertext stored in place of the request body.
+ */
+interface EncryptedPayload {
+  alg: typeof ALGORITHM;
+  keyId: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * The plaintext that gets encrypted.
+ */
+interface SealedContents {
+  request: Omit<StoredRequest, 'body'> & { body: string | undefined };
+  metadata?: Record<string, unknown>;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new EncryptionError('WebCrypto is not available (a secure context is required)');
+  }
+  return subtle;
+}
+
+function isKeyProvider(key: CryptoKey | EncryptionKeyProvider): key is EncryptionKeyProvider {
+  return typeof (key as EncryptionKeyProvider).getKey === 'function';
+}
+
+/**
+ * Read the encrypted payload of a stored entry, if it has one.
+ */
+function readPayload(stored: LedgerEntry): EncryptedPayload | undefined {
+  if (stored.request.url !== ENCRYPTED_URL) {
+    return undefined;
+  }
+  return stored.request.body as EncryptedPayload;
+}
+
+/**
+ * LedgerStorage wrapper that encrypts requests and metadata at rest.
+ *
+ * Features:
+ * - AES-GCM with a random IV per write, bound to the entry ID
+ * - Key rotation via a key provider and `rotateKey()`
+ * - Missing keys and tampered ciphertext fail with EncryptionError
+ * - Entries written before encryption was enabled are read as-is
+ */
+export class EncryptedStorage implements LedgerStorage {
+  private readonly storage: LedgerStorage;
+  private readonly keys: EncryptionKeyProvider;
+
+  constructor(config: EncryptedStorageConfig) {
+    this.storage = config.storage;
+
+    const key = config.key;
+    this.keys = isKeyProvider(key)
+      ? key
+      : { currentKeyId: () => DEFAULT_KEY_ID, getKey: (keyId) => (keyId === DEFAULT_KEY_ID ? key : undefined) };
+  }
+
+  /**
+   * Resolve a key by ID or fail.
+   */
+  private async requireKey(keyId: string): Promise<CryptoKey> {
+    const key = await this.keys.getKey(keyId);
+    if (!key) {
+      throw new EncryptionError(`Encryption key not available: ${keyId}`);
+    }
+    return key;
+  }
+
+  /**
+   * Encrypt an entry's request and metadata with the current key.
+   */
+  private async encrypt(entry: LedgerEntry): Promise<LedgerEntry> {
+    const keyId = await this.keys.currentKeyId();
+    const key = await this.requireKey(keyId);
+
+    const contents: SealedContents = {
+      request: { ...entry.request, body: serializeBody(entry.request) },
+    };
+    if (entry.metadata !== undefined) contents.metadata = entry.metadata;
+
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    let data: ArrayBuffer;
+    try {
+      data = await getSubtle().encrypt(
+        { name: ALGORITHM, iv, additionalData: encoder.encode(entry.id) },
+        key,
+        encoder.encode(JSON.stringify(contents))
+      );
+    } catch (error: unknown) {
+      throw error instanceof EncryptionError
+        ? error
+        : new EncryptionError(`Failed to encrypt entry: ${entry.id}`, error instanceof Error ? error : undefined);
+    }
+
+    const payload: EncryptedPayload = {
+      alg: ALGORITHM,
+      keyId,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    };
+
+    const sealed: LedgerEntry = {
+      ...entry,
+      request: { url: ENCRYPTED_URL, method: 'POST', headers: {}, body: payload },
+    };
+    delete sealed.metadata;
+    return sealed;
+  }
+
+  /**
+   * Decrypt a stored entry. Unencrypted entries are returned unchanged.
+   */
+  private async decrypt(stored: LedgerEntry): Promise<LedgerEntry> {
+    const payload = readPayload(stored);
+    if (!payload) {
+      return stored;
+    }
+
+    const key = await this.requireKey(payload.keyId);
+
+    let contents: SealedContents;
+    try {
+      const plaintext = await getSubtle().decrypt(
+        { name: ALGORITHM, iv: fromBase64(payload.iv), additionalData: encoder.encode(stored.id) },
+        key,
+        fromBase64(payload.data)
+      );
+      contents = JSON.parse(decoder.decode(plaintext)) as SealedContents;
+    } catch (error: unknown) {
+      throw error instanceof EncryptionError
+        ? error
+        : new EncryptionError(`Failed to decrypt entry: ${stored.id}`, error instanceof Error ? error : undefined);
+    }
+
+    const entry: LedgerEntry = {
+      ...stored,
+      request: {
+        ...contents.request,
+        body: deserializeBody(contents.request.body, contents.request.encoding),
+      },
+    };
+    if (contents.metadata !== undefined) entry.metadata = contents.metadata;
+    return entry;
+  }
+
+  private async decryptAll(stored: LedgerEntry[]): Promise<LedgerEntry[]> {
+    return Promise.all(stored.map((entry) => this.decrypt(entry)));
+  }
+
+  /**
+   * Encrypt and store a new entry.
+   */
+  async put(entry: LedgerEntry): Promise<void> {
+    await this.storage.put(await this.encrypt(entry));
+  }
+
+  /**
+   * Get all entries, decrypted, ordered by createdAt ascending.
+   */
+  async getAll(): Promise<LedgerEntry[]> {
+    return this.decryptAll(await this.storage.getAll());
+  }
+
+  /**
+   * Get entries matching a filter, decrypted, ordered by createdAt ascending.
+   * Filtering runs on plaintext fields, so the underlying indexes are used.
+   */
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    return this.decryptAll(await queryStorage(this.storage, query));
+  }
+
+  /**
+   * Get a single entry by ID, decrypted.
+   */
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    const stored = await this.storage.get(id);
+    return stored ? this.decrypt(stored) : undefined;
+  }
+
+  /**
+   * Update an existing entry.
+   * Patches touching request or metadata are re-encrypted with the current key.
+   */
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
+    if (patch.request === undefined && !('metadata' in patch)) {
+      return this.storage.update(id, patch, options);
+    }
+
+    // Without an expected revision, re-read and retry when the entry changes
+    // between reading and writing it, rather than overwriting the change
+    for (;;) {
+      const stored = await this.storage.get(id);
+      if (!stored) {
+        throw new EntryNotFoundError(id);
+      }
+
+      const sealed = await this.encrypt(applyPatch(await this.decrypt(stored), patch));
+      try {
+        await this.storage.update(
+          id,
+          { ...patch, request: sealed.request, metadata: undefined },
+          { expectedRevision: options?.expectedRevision ?? entryRevision(stored) }
+        );
+        return;
+      } catch (error: unknown) {
+        if (!(error instanceof ConcurrentModificationError) || options?.expectedRevision !== undefined) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove an entry by ID.
+   */
+  async remove(id: string): Promise<void> {
+    return this.storage.remove(id);
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    return this.storage.clear();
+  }
+
+  /**
+   * Get the count of entries.
+   */
+  async count(): Promise<number> {
+    return this.storage.count();
+  }
+
+  /**
+   * Re-encrypt every entry not already under the current key, including
+   * entries stored before encryption was enabled.
+   * Entries being processed are skipped, since their replay still updates
+   * them; once a run re-encrypts everything, retired keys can be dropped
+   * from the provider.
+   *
+   * @returns Number of entries re-encrypted
+   */
+  async rotateKey(): Promise<number> {
+    const keyId = await this.keys.currentKeyId();
+    let rotated = 0;
+
+    for (const entry of await this.storage.getAll()) {
+      if (await this.rotateEntry(entry, keyId)) {
+        rotated++;
+      }
+    }
+
+    return rotated;
+  }
+
+  /**
+   * Re-encrypt one entry under the given key, re-reading and retrying
+   * when it changes meanwhile.
+   *
+   * @returns Whether the entry was re-encrypted
+   */
+  private async rotateEntry(entry: LedgerEntry, keyId: string): Promise<boolean> {
+    let stored: LedgerEntry | undefined = entry;
+    while (stored && stored.status !== 'processing' && readPayload(stored)?.keyId !== keyId) {
+      const sealed = await this.encrypt(await this.decrypt(stored));
+      try {
+        await this.storage.update(
+          stored.id,
+          { request: sealed.request, metadata: undefined },
+          { expectedRevision: entryRevision(stored) }
+        );
+        return true;
+      } catch (error: unknown) {
+        if (error instanceof EntryNotFoundError) {
+          return false;
+        }
+        if (!(error instanceof ConcurrentModificationError)) {
+          throw error;
+        }
+      }
+      stored = await this.storage.get(stored.id);
+    }
+    return false;
+  }
+
+  /**
+   * Close the underlying storage, if it supports closing.
+   */
+  async close(): Promise<void> {
+    const storage = this.storage as LedgerStorage & { close?: () => void | Promise<void> };
+    await storage.close?.();
+  }
+}
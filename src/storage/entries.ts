@@ -0,0 +1,200 @@
+/**
+ * Shared Entry Helpers
+ *
+ * Serialization, patching and ordering rules shared by every storage
+ * adapter, so that switching adapters never changes entry semantics.
+ */
+
+import type { LedgerEntry, LedgerEntryPatch, SerializedEntry, StoredRequest, UpdateOptions } from '../types.js';
+import { ConcurrentModificationError } from '../types.js';
+import { toBase64, fromBase64 } from '../utils/base64.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * JSON stand-in for an ArrayBuffer in binary request bodies.
+ */
+const BINARY_KEY = '$base64';
+
+function binaryReplacer(_key: string, value: unknown): unknown {
+  return value instanceof ArrayBuffer ? { [BINARY_KEY]: toBase64(new Uint8Array(value)) } : value;
+}
+
+function binaryReviver(_key: string, value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && typeof (value as Record<string, unknown>)[BINARY_KEY] === 'string') {
+    return fromBase64((value as Record<string, string>)[BINARY_KEY]!).buffer;
+  }
+  return value;
+}
+
+/**
+ * Size of an entry in bytes, measured as its UTF-8 JSON serialization
+ * (binary body data counted as base64). Used for `maxBytes` budgets.
+ */
+export function entrySize(entry: LedgerEntry): number {
+  return encoder.encode(JSON.stringify(entry, binaryReplacer)).length;
+}
+
+/**
+ * Serialize a request body to a JSON string.
+ * Binary data in non-JSON encodings is written as base64.
+ */
+export function serializeBody(request: StoredRequest): string | undefined {
+  return request.encoding
+    ? JSON.stringify(request.body, binaryReplacer)
+    : JSON.stringify(request.body);
+}
+
+/**
+ * Parse a request body written by `serializeBody`.
+ */
+export function deserializeBody(
+  serialized: string | undefined,
+  encoding: StoredRequest['encoding']
+): unknown {
+  if (!serialized) {
+    return undefined;
+  }
+  return encoding ? JSON.parse(serialized, binaryReviver) : JSON.parse(serialized);
+}
+
+/**
+ * Copy an entry the way IndexedDB persists it (structured clone),
+ * so stored entries never share references with callers.
+ */
+export function cloneEntry(entry: LedgerEntry): LedgerEntry {
+  return structuredClone(entry);
+}
+
+export type { SerializedEntry };
+
+/**
+ * Serialize an entry for storage.
+ */
+export function serializeEntry(entry: LedgerEntry): SerializedEntry {
+  return {
+    ...entry,
+    request: {
+      ...entry.request,
+      body: serializeBody(entry.request),
+    },
+    metadata: entry.metadata ? JSON.stringify(entry.metadata) : undefined,
+  };
+}
+
+/**
+ * Deserialize an entry from storage.
+ */
+export function deserializeEntry(stored: Record<string, unknown>): LedgerEntry {
+  const request = stored['request'] as Record<string, unknown>;
+  const encoding = request['encoding'] as StoredRequest['encoding'];
+
+  const entry: LedgerEntry = {
+    id: stored['id'] as string,
+    request: {
+      url: request['url'] as string,
+      method: request['method'] as LedgerEntry['request']['method'],
+      headers: request['headers'] as Record<string, string>,
+      body: deserializeBody(request['body'] as string | undefined, encoding),
+    },
+    status: stored['status'] as LedgerEntry['status'],
+    attemptCount: stored['attemptCount'] as number,
+    createdAt: stored['createdAt'] as number,
+  };
+
+  if (encoding !== undefined) entry.request.encoding = encoding;
+  if (stored['lastAttemptAt'] !== undefined) entry.lastAttemptAt = stored['lastAttemptAt'] as number;
+  if (stored['nextAttemptAt'] !== undefined) entry.nextAttemptAt = stored['nextAttemptAt'] as number;
+  if (stored['error'] !== undefined) entry.error = stored['error'] as NonNullable<LedgerEntry['error']>;
+  if (stored['completedAt'] !== undefined) entry.completedAt = stored['completedAt'] as number;
+  if (stored['response'] !== undefined) entry.response = stored['response'] as NonNullable<LedgerEntry['response']>;
+  if (stored['idempotencyKey'] !== undefined) entry.idempotencyKey = stored['idempotencyKey'] as string;
+  if (stored['queue'] !== undefined) entry.queue = stored['queue'] as string;
+  if (stored['dependsOn'] !== undefined) entry.dependsOn = stored['dependsOn'] as string[];
+  if (stored['orderingKey'] !== undefined) entry.orderingKey = stored['orderingKey'] as string;
+  if (stored['priority'] !== undefined) entry.priority = stored['priority'] as number;
+  if (stored['coalesceKey'] !== undefined) entry.coalesceKey = stored['coalesceKey'] as string;
+  if (stored['coalescedIds'] !== undefined) entry.coalescedIds = stored['coalescedIds'] as string[];
+  if (stored['revision'] !== undefined) entry.revision = stored['revision'] as number;
+  if (stored['metadata']) entry.metadata = JSON.parse(stored['metadata'] as string);
+
+  return entry;
+}
+
+/**
+ * Revision of an entry; entries never updated count as revision 0.
+ */
+export function entryRevision(entry: Pick<LedgerEntry, 'revision'>): number {
+  return entry.revision ?? 0;
+}
+
+/**
+ * Check an update's `expectedRevision` against the stored entry.
+ * Adapters call this inside the same atomic step as the write.
+ *
+ * @throws ConcurrentModificationError if the revisions differ
+ */
+export function checkRevision(existing: LedgerEntry, options: UpdateOptions = {}): void {
+  const { expectedRevision } = options;
+  if (expectedRevision !== undefined && expectedRevision !== entryRevision(existing)) {
+    throw new ConcurrentModificationError(existing.id, expectedRevision, entryRevision(existing));
+  }
+}
+
+/**
+ * Apply a patch to a stored entry, returning the updated copy with its
+ * revision incremented.
+ *
+ * Undefined values are ignored, except for `error`, `metadata` and
+ * `nextAttemptAt`, which are cleared when the key is present in the patch
+ * with an undefined value.
+ */
+export function applyPatch(existing: LedgerEntry, patch: LedgerEntryPatch): LedgerEntry {
+  const updated = { ...existing, revision: entryRevision(existing) + 1 };
+
+  if (patch.status !== undefined) updated.status = patch.status;
+  if (patch.attemptCount !== undefined) updated.attemptCount = patch.attemptCount;
+  if (patch.lastAttemptAt !== undefined) updated.lastAttemptAt = patch.lastAttemptAt;
+  if (patch.request !== undefined) updated.request = patch.request;
+  if (patch.coalescedIds !== undefined) updated.coalescedIds = patch.coalescedIds;
+  if (patch.completedAt !== undefined) updated.completedAt = patch.completedAt;
+  if (patch.response !== undefined) updated.response = patch.response;
+  // Allow explicitly clearing error by checking if key exists in patch
+  if ('error' in patch) {
+    if (patch.error === undefined) {
+      delete updated.error;
+    } else {
+      updated.error = patch.error;
+    }
+  }
+  if ('nextAttemptAt' in patch) {
+    if (patch.nextAttemptAt === undefined) {
+      delete updated.nextAttemptAt;
+    } else {
+      updated.nextAttemptAt = patch.nextAttemptAt;
+    }
+  }
+  if ('metadata' in patch) {
+    if (patch.metadata === undefined) {
+      delete updated.metadata;
+    } else {
+      updated.metadata = patch.metadata;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Compare two entries by createdAt ascending, then by ID.
+ * This matches the order of the IndexedDB createdAt index.
+ */
+export function compareEntries(
+  a: Pick<LedgerEntry, 'id' | 'createdAt'>,
+  b: Pick<LedgerEntry, 'id' | 'createdAt'>
+): number {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt - b.createdAt;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
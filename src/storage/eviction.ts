@@ -0,0 +1,122 @@
+/**
+ * Eviction Policies
+ *
+ * Decides which entries make room when a storage limit would be exceeded.
+ * Shared by every built-in adapter so policies behave identically.
+ */
+
+import type { EntryStatus, EvictionPolicy, LedgerEntry } from '../types.js';
+import { LedgerFullError } from '../types.js';
+import { entrySize } from './entries.js';
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = 'evict-oldest';
+
+/**
+ * Eviction order for `evict-failed-first`; lower ranks go first.
+ * Completed entries are retained history and always go before undelivered ones.
+ */
+const FAILED_FIRST_RANK: Record<EntryStatus, number> = {
+  completed: 0,
+  failed: 1,
+  blocked: 2,
+  pending: 3,
+  processing: 4,
+};
+
+/**
+ * Limits a storage enforces on put.
+ */
+export interface StorageLimits {
+  maxEntries: number;
+  maxBytes: number | undefined;
+}
+
+/**
+ * Select the entries to evict so that storing `incoming` stays within limits.
+ *
+ * @param entries Stored entries, ordered by createdAt ascending (may include `incoming`)
+ * @param incoming The entry being stored, which is never evicted
+ * @param policy The eviction policy
+ * @param limits The limits to enforce
+ * @returns The entries to evict
+ * @throws LedgerFullError if the policy cannot free enough room
+ */
+export function selectEvictions(
+  entries: LedgerEntry[],
+  incoming: LedgerEntry,
+  policy: EvictionPolicy,
+  limits: StorageLimits
+): LedgerEntry[] {
+  const others = entries.filter((entry) => entry.id !== incoming.id);
+  const { maxEntries, maxBytes } = limits;
+
+  const sizes = new Map<string, number>();
+  let bytes = 0;
+  if (maxBytes !== undefined) {
+    for (const entry of others) {
+      const size = entrySize(entry);
+      sizes.set(entry.id, size);
+      bytes += size;
+    }
+    bytes += entrySize(incoming);
+  }
+
+  const excess = Math.max(0, others.length + 1 - maxEntries);
+  const excessBytes = maxBytes === undefined ? 0 : Math.max(0, bytes - maxBytes);
+
+  if (excess === 0 && excessBytes === 0) {
+    return [];
+  }
+
+  // Entries being sent right now are never pulled from under the engine
+  const candidates = others.filter((entry) => entry.status !== 'processing');
+
+  let ordered: LedgerEntry[];
+  switch (policy) {
+    case 'reject':
+      // Only retained history may make room
+      ordered = candidates.filter((entry) => entry.status === 'completed');
+      break;
+
+    case 'evict-oldest':
+      ordered = [
+        ...candidates.filter((entry) => entry.status === 'completed'),
+        ...candidates.filter((entry) => entry.status !== 'completed'),
+      ];
+      break;
+
+    case 'evict-failed-first':
+      // Array.prototype.sort is stable, so createdAt order holds within a rank
+      ordered = [...candidates].sort(
+        (a, b) => FAILED_FIRST_RANK[a.status] - FAILED_FIRST_RANK[b.status]
+      );
+      break;
+
+    default: {
+      const ids = new Set(policy(candidates, excess, excessBytes));
+      const selected = candidates.filter((entry) => ids.has(entry.id));
+      const freed = selected.reduce((total, entry) => total + (sizes.get(entry.id) ?? 0), 0);
+      if (selected.length < excess || freed < excessBytes) {
+        throw new LedgerFullError(incoming.id);
+      }
+      return selected;
+    }
+  }
+
+  // Take victims in policy order until both limits are met
+  const selected: LedgerEntry[] = [];
+  let freed = 0;
+  for (const entry of ordered) {
+    if (selected.length >= excess && freed >= excessBytes) {
+      break;
+    }
+    selected.push(entry);
+    freed += sizes.get(entry.id) ?? 0;
+  }
+
+  if (selected.length < excess || freed < excessBytes) {
+    throw new LedgerFullError(incoming.id);
+  }
+
+  return selected;
+}
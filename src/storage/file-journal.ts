@@ -0,0 +1,449 @@
+/**
+ * File Journal Storage Adapter
+ *
+ * Implements the LedgerStorage interface for Node.js (Electron main
+ * processes, CLI agents) as an append-only JSON-lines journal.
+ *
+ * Every mutation appends one line and fsyncs it before resolving, so a
+ * write is either fully on disk or, after a crash, a torn last line that
+ * is discarded when the journal is replayed on open.
+ */
+
+import { open, readFile, rename, rm, mkdir, type FileHandle } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  EvictionPolicy,
+  LedgerEntry,
+  LedgerQuery,
+  LedgerStorage,
+  FileJournalStorageConfig,
+  LedgerEntryPatch,
+  UpdateOptions,
+} from '../types.js';
+import { PersistenceError, QuotaExceededError, EntryNotFoundError, DuplicateEntryError } from '../types.js';
+import {
+  serializeEntry,
+  deserializeEntry,
+  applyPatch,
+  checkRevision,
+  compareEntries,
+  type SerializedEntry,
+} from './entries.js';
+import { applyQuery } from './query.js';
+import { DEFAULT_EVICTION_POLICY, selectEvictions, type StorageLimits } from './eviction.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+const NEWLINE = 0x0a;
+
+/**
+ * A single line in the journal.
+ */
+type JournalRecord =
+  | { op: 'set'; entry: SerializedEntry }
+  | { op: 'delete'; id: string }
+  | { op: 'clear' };
+
+/**
+ * Append-only journal implementation of LedgerStorage.
+ *
+ * Features:
+ * - Durable writes: each record is fsynced before the call resolves
+ * - Journal replayed into memory on open
+ * - Torn last line from a crash is truncated on open
+ * - Periodic compaction via write-to-temp and atomic rename
+ * - Max size enforcement with a configurable eviction policy
+ */
+export class FileJournalStorage implements LedgerStorage {
+  private readonly path: string;
+  private readonly limits: StorageLimits;
+  private readonly evictionPolicy: EvictionPolicy;
+  private readonly onEvict: ((entry: LedgerEntry) => void) | undefined;
+  private readonly compactThreshold: number;
+  private readonly entries = new Map<string, SerializedEntry>();
+  private handle: FileHandle | null = null;
+  private openPromise: Promise<void> | null = null;
+  private recordCount = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: FileJournalStorageConfig) {
+    this.path = config.path;
+    this.limits = {
+      maxEntries: config.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxBytes: config.maxBytes,
+    };
+    this.evictionPolicy = config.evictionPolicy ?? DEFAULT_EVICTION_POLICY;
+    this.onEvict = config.onEvict;
+    this.compactThreshold = config.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
+  }
+
+  /**
+   * Open the journal and replay it into memory, once.
+   */
+  private async ensureOpen(): Promise<void> {
+    if (this.handle) {
+      return;
+    }
+
+    if (!this.openPromise) {
+      this.openPromise = this.replay().catch((error: unknown) => {
+        this.openPromise = null;
+        throw error instanceof PersistenceError
+          ? error
+          : new PersistenceError('Failed to open journal', error instanceof Error ? error : undefined);
+      });
+    }
+
+    return this.openPromise;
+  }
+
+  /**
+   * Read the journal, rebuild the entry map and truncate a torn tail.
+   */
+  private async replay(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    // A leftover temp file means compaction crashed before the rename;
+    // the original journal is still intact.
+    await rm(this.tempPath, { force: true });
+
+    let content: Buffer;
+    try {
+      content = await readFile(this.path);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      content = Buffer.alloc(0);
+    }
+
+    this.entries.clear();
+    this.recordCount = 0;
+
+    let offset = 0;
+    let validLength = 0;
+
+    while (offset < content.length) {
+      const end = content.indexOf(NEWLINE, offset);
+      const isLast = end === -1 || end === content.length - 1;
+      const line = content.subarray(offset, end === -1 ? content.length : end).toString('utf8');
+
+      let record: JournalRecord | null = null;
+      if (end !== -1) {
+        try {
+          record = JSON.parse(line) as JournalRecord;
+        } catch {
+          record = null;
+        }
+      }
+
+      if (!record) {
+        if (isLast) {
+          // Torn write from a crash: drop it
+          break;
+        }
+        throw new PersistenceError(`Corrupt journal record at byte ${offset} in ${this.path}`);
+      }
+
+      this.applyRecord(record);
+      offset = end + 1;
+      validLength = offset;
+    }
+
+    this.handle = await open(this.path, 'a+');
+
+    if (validLength < content.length) {
+      await this.handle.truncate(validLength);
+      await this.handle.sync();
+    }
+  }
+
+  /**
+   * Apply a journal record to the in-memory map.
+   */
+  private applyRecord(record: JournalRecord): void {
+    switch (record.op) {
+      case 'set':
+        this.entries.set(record.entry.id, record.entry);
+        break;
+      case 'delete':
+        this.entries.delete(record.id);
+        break;
+      case 'clear':
+        this.entries.clear();
+        break;
+    }
+    this.recordCount++;
+  }
+
+  /**
+   * Run a mutation exclusively, after any in-flight mutation.
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => {
+      await this.ensureOpen();
+      return operation();
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Append records to the journal and fsync, then apply them in memory.
+   * On failure the journal is truncated back to its previous size, so no
+   * partial record is left for later appends to follow.
+   */
+  private async append(records: JournalRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const handle = this.handle;
+    if (!handle) {
+      throw new PersistenceError('Journal is closed');
+    }
+
+    const data = Buffer.from(records.map((record) => JSON.stringify(record) + '\n').join(''), 'utf8');
+    let size: number | undefined;
+
+    try {
+      size = (await handle.stat()).size;
+
+      // Writes may be partial; keep going until every byte is written
+      let written = 0;
+      while (written < data.length) {
+        const { bytesWritten } = await handle.write(data, written, data.length - written);
+        written += bytesWritten;
+      }
+      await handle.sync();
+    } catch (error: unknown) {
+      if (size !== undefined) {
+        await this.truncateTo(handle, size);
+      }
+      const cause = error instanceof Error ? error : undefined;
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOSPC' || code === 'EDQUOT') {
+        throw new QuotaExceededError('Disk full, failed to write journal', cause);
+      }
+      throw new PersistenceError('Failed to write journal', cause);
+    }
+
+    for (const record of records) {
+      this.applyRecord(record);
+    }
+  }
+
+  /**
+   * Drop a failed append from the end of the journal. If even that fails,
+   * close the journal so the next call reopens it and replay drops the
+   * torn record.
+   */
+  private async truncateTo(handle: FileHandle, size: number): Promise<void> {
+    try {
+      await handle.truncate(size);
+      await handle.sync();
+    } catch {
+      this.handle = null;
+      this.openPromise = null;
+      await handle.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Rewrite the journal as one record per live entry if it has grown
+   * past the compaction threshold.
+   */
+  private async compactIfNeeded(): Promise<void> {
+    if (this.recordCount - this.entries.size < this.compactThreshold) {
+      return;
+    }
+    await this.compact();
+  }
+
+  /**
+   * Write live entries to a temp file, fsync it and atomically rename it
+   * over the journal.
+   *
+   * Failures are not fatal to the mutation that triggered compaction: its
+   * record is already durable, the journal stays valid and compaction is
+   * retried after the next mutation.
+   */
+  private async compact(): Promise<void> {
+    const records: JournalRecord[] = this.sorted().map((entry) => ({ op: 'set', entry }));
+    const data = records.map((record) => JSON.stringify(record) + '\n').join('');
+
+    try {
+      const temp = await open(this.tempPath, 'w');
+      try {
+        await temp.write(data);
+        await temp.sync();
+      } finally {
+        await temp.close();
+      }
+
+      await this.handle?.close();
+      this.handle = null;
+      await rename(this.tempPath, this.path);
+      await this.syncDirectory();
+      this.handle = await open(this.path, 'a+');
+      this.recordCount = records.length;
+    } catch {
+      await rm(this.tempPath, { force: true }).catch(() => undefined);
+
+      // Reopen whichever journal the rename left, both being valid; if that
+      // fails too, the next call replays it from scratch
+      if (!this.handle) {
+        this.handle = await open(this.path, 'a+').catch(() => null);
+        if (!this.handle) {
+          this.openPromise = null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fsync the parent directory so the rename itself is durable.
+   * Not supported on every platform, so failures are ignored.
+   */
+  private async syncDirectory(): Promise<void> {
+    try {
+      const dir = await open(dirname(this.path), 'r');
+      try {
+        await dir.sync();
+      } finally {
+        await dir.close();
+      }
+    } catch {
+      // Directory fsync is best-effort (e.g. unsupported on Windows)
+    }
+  }
+
+  /**
+   * Store a new entry.
+   * Throws DuplicateEntryError if entry with same ID exists.
+   * Applies the eviction policy if maxEntries or maxBytes is exceeded.
+   */
+  async put(entry: LedgerEntry): Promise<void> {
+    const evicted = await this.exclusive(async () => {
+      if (this.entries.has(entry.id)) {
+        throw new DuplicateEntryError(entry.id);
+      }
+
+      const victims = selectEvictions(
+        this.sorted().map((stored) => deserializeEntry(stored)),
+        entry,
+        this.evictionPolicy,
+        this.limits
+      );
+
+      // One write, so the entry and its evictions land together
+      await this.append([
+        { op: 'set', entry: serializeEntry(entry) },
+        ...victims.map((victim): JournalRecord => ({ op: 'delete', id: victim.id })),
+      ]);
+      await this.compactIfNeeded();
+      return victims;
+    });
+
+    for (const victim of evicted) {
+      this.onEvict?.(victim);
+    }
+  }
+
+  /**
+   * Get all entries ordered by createdAt ascending.
+   */
+  async getAll(): Promise<LedgerEntry[]> {
+    await this.ensureOpen();
+    return this.sorted().map((stored) => deserializeEntry(stored));
+  }
+
+  /**
+   * Get entries matching a filter, ordered by createdAt ascending.
+   */
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    return applyQuery(await this.getAll(), query);
+  }
+
+  /**
+   * Get a single entry by ID.
+   */
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    await this.ensureOpen();
+    const stored = this.entries.get(id);
+    return stored ? deserializeEntry(stored) : undefined;
+  }
+
+  /**
+   * Update an existing entry.
+   */
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
+    return this.exclusive(async () => {
+      const existing = this.entries.get(id);
+
+      if (!existing) {
+        throw new EntryNotFoundError(id);
+      }
+
+      const current = deserializeEntry(existing);
+      checkRevision(current, options);
+
+      await this.append([{ op: 'set', entry: serializeEntry(applyPatch(current, patch)) }]);
+      await this.compactIfNeeded();
+    });
+  }
+
+  /**
+   * Remove an entry by ID.
+   */
+  async remove(id: string): Promise<void> {
+    return this.exclusive(async () => {
+      if (!this.entries.has(id)) {
+        return;
+      }
+
+      await this.append([{ op: 'delete', id }]);
+      await this.compactIfNeeded();
+    });
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.append([{ op: 'clear' }]);
+      await this.compact();
+    });
+  }
+
+  /**
+   * Get the count of entries.
+   */
+  async count(): Promise<number> {
+    await this.ensureOpen();
+    return this.entries.size;
+  }
+
+  /**
+   * Stored entries ordered by createdAt ascending.
+   */
+  private sorted(): SerializedEntry[] {
+    return Array.from(this.entries.values()).sort(compareEntries);
+  }
+
+  private get tempPath(): string {
+    return `${this.path}.compact`;
+  }
+
+  /**
+   * Close the journal file after pending writes finish.
+   * The storage reopens (and replays the journal) on next use.
+   */
+  async close(): Promise<void> {
+    await this.queue;
+    await this.handle?.close();
+    this.handle = null;
+    this.openPromise = null;
+  }
+}
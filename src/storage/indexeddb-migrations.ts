@@ -0,0 +1,192 @@
+/**
+ * IndexedDB Schema Migrations
+ *
+ * Ordered upgrade steps for the ledger's object store. Each step runs
+ * inside the database's versionchange transaction, so an interrupted
+ * upgrade rolls back as a whole.
+ *
+ * The ledger tracks its own schema version per store in a small meta
+ * store, independent of the database version. This lets the entries
+ * store live inside an application database that the application
+ * versions itself.
+ */
+
+import { PersistenceError } from '../types.js';
+
+/**
+ * Name of the object store recording the schema version of each ledger store.
+ */
+export const META_STORE_NAME = '__request_ledger_meta';
+
+/**
+ * Context passed to each migration step.
+ */
+export interface MigrationContext {
+  /** The database being upgraded */
+  db: IDBDatabase;
+  /** The versionchange transaction */
+  transaction: IDBTransaction;
+  /** Name of the ledger's object store */
+  storeName: string;
+}
+
+/**
+ * A single schema upgrade step.
+ */
+export interface IndexedDBMigration {
+  /** Schema version this step upgrades to */
+  version: number;
+  /** Upgrade the store. Must only use IndexedDB requests on the given transaction. */
+  migrate(context: MigrationContext): void | Promise<void>;
+}
+
+/**
+ * Rewrite every record in a store within the upgrade transaction.
+ */
+function rewriteRecords(
+  store: IDBObjectStore,
+  transform: (record: Record<string, unknown>) => Record<string, unknown>
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.openCursor();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+
+      if (cursor) {
+        cursor.update(transform(cursor.value as Record<string, unknown>));
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+
+    cursorRequest.onerror = () => {
+      reject(new PersistenceError('Failed to migrate entries', cursorRequest.error ?? undefined));
+    };
+  });
+}
+
+/**
+ * Parse a JSON string written by schema version 1.
+ */
+function parseLegacyJson(value: unknown): unknown {
+  return typeof value === 'string' && value ? JSON.parse(value) : undefined;
+}
+
+/**
+ * Ordered migrations. Append new steps; never edit shipped ones.
+ */
+export const MIGRATIONS: IndexedDBMigration[] = [
+  {
+    // Entries store with lookup indexes
+    version: 1,
+    migrate({ db, storeName }) {
+      const store = db.createObjectStore(storeName, { keyPath: 'id' });
+      store.createIndex('status', 'status', { unique: false });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+      store.createIndex('idempotencyKey', 'idempotencyKey', { unique: false });
+    },
+  },
+  {
+    // Store body and metadata as structured-clone values instead of JSON strings
+    version: 2,
+    migrate({ transaction, storeName }) {
+      return rewriteRecords(transaction.objectStore(storeName), (record) => {
+        const request = record['request'] as Record<string, unknown>;
+        const updated: Record<string, unknown> = {
+          ...record,
+          request: { ...request, body: parseLegacyJson(request['body']) },
+        };
+        const metadata = parseLegacyJson(record['metadata']);
+        if (metadata === undefined) {
+          delete updated['metadata'];
+        } else {
+          updated['metadata'] = metadata;
+        }
+        return updated;
+      });
+    },
+  },
+  {
+    // Compound index so status queries come back in createdAt order
+    version: 3,
+    migrate({ transaction, storeName }) {
+      transaction.objectStore(storeName).createIndex('statusCreatedAt', ['status', 'createdAt'], { unique: false });
+    },
+  },
+  {
+    // Compound index for status queries within a named queue
+    version: 4,
+    migrate({ transaction, storeName }) {
+      transaction.objectStore(storeName).createIndex(
+        'queueStatusCreatedAt',
+        ['queue', 'status', 'createdAt'],
+        { unique: false }
+      );
+    },
+  },
+];
+
+/**
+ * The schema version produced by running every migration.
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Read the recorded schema version of a ledger store.
+ *
+ * Stores created before versioning was introduced have no meta record
+ * and are reported as version 1.
+ */
+export function readSchemaVersion(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  storeName: string
+): Promise<number> {
+  if (!db.objectStoreNames.contains(storeName)) {
+    return Promise.resolve(0);
+  }
+
+  if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+    return Promise.resolve(1);
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    const request = transaction.objectStore(META_STORE_NAME).get(storeName);
+
+    request.onsuccess = () => {
+      const record = request.result as { schemaVersion: number } | undefined;
+      resolve(record?.schemaVersion ?? 1);
+    };
+
+    request.onerror = () => {
+      reject(new PersistenceError('Failed to read schema version', request.error ?? undefined));
+    };
+  });
+}
+
+/**
+ * Run all pending migrations for a store inside a versionchange transaction.
+ */
+export async function runMigrations(context: MigrationContext): Promise<void> {
+  const { db, transaction, storeName } = context;
+  const current = await readSchemaVersion(db, transaction, storeName);
+
+  if (current > SCHEMA_VERSION) {
+    throw new PersistenceError(
+      `Store "${storeName}" has schema version ${current}, newer than supported version ${SCHEMA_VERSION}`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > current) {
+      await migration.migrate(context);
+    }
+  }
+
+  if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+    db.createObjectStore(META_STORE_NAME, { keyPath: 'storeName' });
+  }
+  transaction.objectStore(META_STORE_NAME).put({ storeName, schemaVersion: SCHEMA_VERSION });
+}
@@ -5,34 +5,71 @@
  * persistent, reliable storage that survives page reloads.
  */
 
-import type { LedgerEntry, LedgerStorage, IndexedDBStorageConfig, LedgerEntryPatch } from '../types.js';
-import { PersistenceError, EntryNotFoundError, DuplicateEntryError } from '../types.js';
+import type {
+  EvictionPolicy,
+  LedgerEntry,
+  LedgerQuery,
+  LedgerStorage,
+  IndexedDBStorageConfig,
+  LedgerEntryPatch,
+  UpdateOptions,
+} from '../types.js';
+import { PersistenceError, QuotaExceededError, EntryNotFoundError, DuplicateEntryError } from '../types.js';
+import { applyPatch, checkRevision, compareEntries, entrySize } from './entries.js';
+import { DEFAULT_QUEUE, matchesQuery, queryStatuses } from './query.js';
+import { DEFAULT_EVICTION_POLICY, selectEvictions, type StorageLimits } from './eviction.js';
+import { META_STORE_NAME, SCHEMA_VERSION, readSchemaVersion, runMigrations } from './indexeddb-migrations.js';
 
 const DEFAULT_DB_NAME = 'request-ledger';
 const DEFAULT_STORE_NAME = 'entries';
 const DEFAULT_MAX_ENTRIES = 1000;
-const DB_VERSION = 1;
+
+/**
+ * Wrap an IndexedDB error, distinguishing quota exhaustion.
+ */
+function toPersistenceError(message: string, error: DOMException | null): PersistenceError {
+  if (error?.name === 'QuotaExceededError') {
+    return new QuotaExceededError(`Storage quota exceeded: ${message}`, error);
+  }
+  return new PersistenceError(message, error ?? undefined);
+}
 
 /**
  * IndexedDB implementation of LedgerStorage.
  * 
  * Features:
  * - Atomic writes using transactions
+ * - Versioned schema with ordered migrations
+ * - Entries stored as structured clones
  * - Entries ordered by createdAt
- * - Max size enforcement with oldest-first eviction
+ * - Max size enforcement with a configurable eviction policy
+ * - Storage quota awareness
  * - Proper error handling
  */
 export class IndexedDBStorage implements LedgerStorage {
   private readonly dbName: string;
   private readonly storeName: string;
-  private readonly maxEntries: number;
+  private readonly limits: StorageLimits;
+  private readonly evictionPolicy: EvictionPolicy;
+  private readonly onEvict: ((entry: LedgerEntry) => void) | undefined;
+  private readonly version: number;
+  private readonly onUpgrade: IndexedDBStorageConfig['onUpgrade'];
+  private readonly quotaCheck: boolean;
   private db: IDBDatabase | null = null;
   private dbPromise: Promise<IDBDatabase> | null = null;
 
   constructor(config: IndexedDBStorageConfig = {}) {
     this.dbName = config.dbName ?? DEFAULT_DB_NAME;
     this.storeName = config.storeName ?? DEFAULT_STORE_NAME;
-    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.limits = {
+      maxEntries: config.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxBytes: config.maxBytes,
+    };
+    this.evictionPolicy = config.evictionPolicy ?? DEFAULT_EVICTION_POLICY;
+    this.onEvict = config.onEvict;
+    this.version = config.version ?? SCHEMA_VERSION;
+    this.onUpgrade = config.onUpgrade;
+    this.quotaCheck = config.quotaCheck ?? true;
   }
 
   /**
@@ -48,35 +85,90 @@ export class IndexedDBStorage implements LedgerStorage {
     }
 
     this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, DB_VERSION);
+      const request = indexedDB.open(this.dbName, this.version);
+      let migrationError: Error | null = null;
+      let upgradingDb: IDBDatabase | null = null;
 
       request.onerror = () => {
-        reject(new PersistenceError('Failed to open IndexedDB', request.error ?? undefined));
+        // Release the connection of an aborted upgrade so it cannot block later opens
+        upgradingDb?.close();
+        this.dbPromise = null;
+        reject(migrationError ?? new PersistenceError('Failed to open IndexedDB', request.error ?? undefined));
       };
 
       request.onsuccess = () => {
-        this.db = request.result;
-        resolve(request.result);
+        const db = request.result;
+
+        // Let other connections upgrade the database instead of blocking them
+        db.onversionchange = () => this.close();
+
+        this.verifySchema(db).then(() => {
+          this.db = db;
+          resolve(db);
+        }).catch((error: unknown) => {
+          db.close();
+          this.dbPromise = null;
+          reject(error);
+        });
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const db = request.result;
+        const transaction = request.transaction as IDBTransaction;
+        upgradingDb = db;
         
-        // Create object store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
-          
-          // Create indexes for efficient querying
-          store.createIndex('status', 'status', { unique: false });
-          store.createIndex('createdAt', 'createdAt', { unique: false });
-          store.createIndex('idempotencyKey', 'idempotencyKey', { unique: false });
+        try {
+          // Application-owned stores are upgraded first
+          this.onUpgrade?.(db, transaction, event.oldVersion, event.newVersion ?? this.version);
+        } catch (error: unknown) {
+          migrationError = new PersistenceError('Application upgrade failed', error instanceof Error ? error : undefined);
+          transaction.abort();
+          return;
         }
+        
+        runMigrations({ db, transaction, storeName: this.storeName }).catch((error: unknown) => {
+          migrationError = error instanceof PersistenceError
+            ? error
+            : new PersistenceError('Schema migration failed', error instanceof Error ? error : undefined);
+          transaction.abort();
+        });
       };
     });
 
     return this.dbPromise;
   }
 
+  /**
+   * Ensure the ledger store exists and is at the current schema version.
+   * 
+   * When the store lives in an application database opened without a
+   * version bump, no upgrade runs and migrations cannot be applied.
+   */
+  private async verifySchema(db: IDBDatabase): Promise<void> {
+    if (!db.objectStoreNames.contains(this.storeName) || !db.objectStoreNames.contains(META_STORE_NAME)) {
+      const found = db.objectStoreNames.contains(this.storeName) ? 1 : 0;
+      throw this.outdatedSchemaError(db, found);
+    }
+
+    const tx = db.transaction(META_STORE_NAME, 'readonly');
+    const schemaVersion = await readSchemaVersion(db, tx, this.storeName);
+
+    if (schemaVersion !== SCHEMA_VERSION) {
+      throw schemaVersion > SCHEMA_VERSION
+        ? new PersistenceError(
+          `Store "${this.storeName}" has schema version ${schemaVersion}, newer than supported version ${SCHEMA_VERSION}`
+        )
+        : this.outdatedSchemaError(db, schemaVersion);
+    }
+  }
+
+  private outdatedSchemaError(db: IDBDatabase, schemaVersion: number): PersistenceError {
+    return new PersistenceError(
+      `Store "${this.storeName}" in database "${this.dbName}" is at schema version ${schemaVersion}, ` +
+      `expected ${SCHEMA_VERSION}. Open the database with a version higher than ${db.version} to migrate it.`
+    );
+  }
+
   /**
    * Execute a transaction and return a promise.
    */
@@ -109,14 +201,16 @@ export class IndexedDBStorage implements LedgerStorage {
   /**
    * Store a new entry.
    * Throws DuplicateEntryError if entry with same ID exists.
-   * Evicts oldest entries if maxEntries is exceeded.
+   * Applies the eviction policy if maxEntries or maxBytes is exceeded.
    */
   async put(entry: LedgerEntry): Promise<void> {
     const db = await this.getDb();
+    await this.checkQuota(entry);
     
     return new Promise<void>((resolve, reject) => {
       const tx = db.transaction(this.storeName, 'readwrite');
       const store = tx.objectStore(this.storeName);
+      let evicted: LedgerEntry[] = [];
       
       // First check if entry already exists
       const getRequest = store.get(entry.id);
@@ -127,25 +221,27 @@ export class IndexedDBStorage implements LedgerStorage {
           return;
         }
         
-        // Serialize body and metadata for storage
-        const storedEntry = {
-          ...entry,
-          request: {
-            ...entry.request,
-            body: JSON.stringify(entry.request.body),
-          },
-          metadata: entry.metadata ? JSON.stringify(entry.metadata) : undefined,
-        };
-        
-        const addRequest = store.add(storedEntry);
+        let addRequest: IDBRequest<IDBValidKey>;
+        try {
+          addRequest = store.add(entry);
+        } catch (error: unknown) {
+          // Structured clone rejects values such as functions
+          reject(new PersistenceError('Failed to add entry', error instanceof Error ? error : undefined));
+          return;
+        }
         
         addRequest.onsuccess = () => {
-          // Check if we need to evict old entries
-          this.evictIfNeeded(store).then(resolve).catch(reject);
+          // Make room if needed; a rejected eviction rolls back the add
+          this.evictIfNeeded(store, entry).then((victims) => {
+            evicted = victims;
+          }).catch((error: unknown) => {
+            tx.abort();
+            reject(error);
+          });
         };
         
         addRequest.onerror = () => {
-          reject(new PersistenceError('Failed to add entry', addRequest.error ?? undefined));
+          reject(toPersistenceError('Failed to add entry', addRequest.error));
         };
       };
       
@@ -154,45 +250,95 @@ export class IndexedDBStorage implements LedgerStorage {
       };
       
       tx.onerror = () => {
-        reject(new PersistenceError('Transaction failed', tx.error ?? undefined));
+        reject(toPersistenceError('Transaction failed', tx.error));
+      };
+      
+      // Browsers report quota exhaustion by aborting the transaction
+      tx.onabort = () => {
+        reject(toPersistenceError('Transaction aborted', tx.error));
+      };
+      
+      // Only report evictions once they are committed
+      tx.oncomplete = () => {
+        resolve();
+        for (const victim of evicted) {
+          this.onEvict?.(victim);
+        }
       };
     });
   }
 
   /**
-   * Evict oldest entries if count exceeds maxEntries.
+   * Throw QuotaExceededError if the entry would not fit in the origin's
+   * remaining storage quota.
    */
-  private async evictIfNeeded(store: IDBObjectStore): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
+  private async checkQuota(entry: LedgerEntry): Promise<void> {
+    if (!this.quotaCheck || typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return;
+    }
+    
+    let estimate: StorageEstimate;
+    try {
+      estimate = await navigator.storage.estimate();
+    } catch {
+      // The estimate is advisory; IndexedDB still reports real quota errors
+      return;
+    }
+    
+    const { usage, quota } = estimate;
+    if (usage === undefined || quota === undefined) {
+      return;
+    }
+    
+    const size = entrySize(entry);
+    if (usage + size > quota) {
+      throw new QuotaExceededError(
+        `Storage quota exceeded: entry ${entry.id} needs ${size} bytes, ${Math.max(0, quota - usage)} available`
+      );
+    }
+  }
+
+  /**
+   * Evict entries per the eviction policy if maxEntries or maxBytes is exceeded.
+   * 
+   * @returns The evicted entries
+   */
+  private async evictIfNeeded(store: IDBObjectStore, incoming: LedgerEntry): Promise<LedgerEntry[]> {
+    return new Promise<LedgerEntry[]>((resolve, reject) => {
       const countRequest = store.count();
       
       countRequest.onsuccess = () => {
         const count = countRequest.result;
         
-        if (count <= this.maxEntries) {
-          resolve();
+        if (count <= this.limits.maxEntries && this.limits.maxBytes === undefined) {
+          resolve([]);
           return;
         }
         
-        const toDelete = count - this.maxEntries;
-        const index = store.index('createdAt');
-        const cursorRequest = index.openCursor();
-        let deleted = 0;
+        const entriesRequest = store.index('createdAt').getAll();
         
-        cursorRequest.onsuccess = () => {
-          const cursor = cursorRequest.result;
+        entriesRequest.onsuccess = () => {
+          let victims: LedgerEntry[];
+          try {
+            victims = selectEvictions(
+              entriesRequest.result as LedgerEntry[],
+              incoming,
+              this.evictionPolicy,
+              this.limits
+            );
+          } catch (error: unknown) {
+            reject(error);
+            return;
+          }
           
-          if (cursor && deleted < toDelete) {
-            store.delete(cursor.primaryKey);
-            deleted++;
-            cursor.continue();
-          } else {
-            resolve();
+          for (const victim of victims) {
+            store.delete(victim.id);
           }
+          resolve(victims);
         };
         
-        cursorRequest.onerror = () => {
-          reject(new PersistenceError('Failed to evict entries', cursorRequest.error ?? undefined));
+        entriesRequest.onerror = () => {
+          reject(new PersistenceError('Failed to evict entries', entriesRequest.error ?? undefined));
         };
       };
       
@@ -215,8 +361,7 @@ export class IndexedDBStorage implements LedgerStorage {
       const request = index.getAll();
       
       request.onsuccess = () => {
-        const entries = request.result.map(this.deserializeEntry);
-        resolve(entries);
+        resolve(request.result as LedgerEntry[]);
       };
       
       request.onerror = () => {
@@ -225,18 +370,96 @@ export class IndexedDBStorage implements LedgerStorage {
     });
   }
 
+  /**
+   * Get entries matching a filter, ordered by createdAt ascending.
+   * 
+   * Uses the idempotencyKey index when filtering by key, otherwise the
+   * statusCreatedAt (or createdAt) index, reading at most `limit` entries
+   * per status.
+   */
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    const db = await this.getDb();
+    const statuses = queryStatuses(query);
+    
+    return new Promise<LedgerEntry[]>((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readonly');
+      const store = tx.objectStore(this.storeName);
+      const results: LedgerEntry[] = [];
+      
+      const finish = () => {
+        results.sort(compareEntries);
+        resolve(query.limit === undefined ? results : results.slice(0, query.limit));
+      };
+      
+      tx.oncomplete = finish;
+      tx.onerror = () => {
+        reject(new PersistenceError('Failed to query entries', tx.error ?? undefined));
+      };
+      
+      if (query.idempotencyKey !== undefined) {
+        // Few entries share a key: read them all and filter
+        const request = store.index('idempotencyKey').getAll(query.idempotencyKey);
+        request.onsuccess = () => {
+          for (const entry of request.result as LedgerEntry[]) {
+            if (matchesQuery(entry, query)) results.push(entry);
+          }
+        };
+        return;
+      }
+      
+      const lower = query.after?.createdAt ?? -Infinity;
+      // Default-queue entries have no queue field, so they are not in the queue index
+      const queue = query.queue !== undefined && query.queue !== DEFAULT_QUEUE ? query.queue : undefined;
+      let ranges: Array<{ index: IDBIndex; range: IDBKeyRange }>;
+      if (statuses && queue !== undefined) {
+        ranges = statuses.map((status) => ({
+          index: store.index('queueStatusCreatedAt'),
+          range: IDBKeyRange.bound([queue, status, lower], [queue, status, Infinity]),
+        }));
+      } else if (statuses) {
+        ranges = statuses.map((status) => ({
+          index: store.index('statusCreatedAt'),
+          range: IDBKeyRange.bound([status, lower], [status, Infinity]),
+        }));
+      } else {
+        ranges = [{ index: store.index('createdAt'), range: IDBKeyRange.lowerBound(lower) }];
+      }
+      
+      for (const { index, range } of ranges) {
+        let collected = 0;
+        const cursorRequest = index.openCursor(range);
+        
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || (query.limit !== undefined && collected >= query.limit)) {
+            return;
+          }
+          
+          const entry = cursor.value as LedgerEntry;
+          // Skip entries tied with the `after` cursor that sort before it
+          if (matchesQuery(entry, query)) {
+            results.push(entry);
+            collected++;
+          }
+          cursor.continue();
+        };
+      }
+    });
+  }
+
   /**
    * Get a single entry by ID.
    */
   async get(id: string): Promise<LedgerEntry | undefined> {
     const result = await this.transaction('readonly', (store) => store.get(id));
-    return result ? this.deserializeEntry(result) : undefined;
+    return result as LedgerEntry | undefined;
   }
 
   /**
    * Update an existing entry.
+   * The revision check and the write share one transaction.
    */
-  async update(id: string, patch: LedgerEntryPatch): Promise<void> {
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
     const db = await this.getDb();
     
     return new Promise<void>((resolve, reject) => {
@@ -252,26 +475,27 @@ export class IndexedDBStorage implements LedgerStorage {
           return;
         }
         
-        // Merge patch with existing entry
-        const updated = { ...existing };
-        
-        if (patch.status !== undefined) updated.status = patch.status;
-        if (patch.attemptCount !== undefined) updated.attemptCount = patch.attemptCount;
-        if (patch.lastAttemptAt !== undefined) updated.lastAttemptAt = patch.lastAttemptAt;
-        // Allow explicitly clearing error by checking if key exists in patch
-        if ('error' in patch) {
-          if (patch.error === undefined) {
-            delete updated.error;
-          } else {
-            updated.error = patch.error;
-          }
+        try {
+          checkRevision(existing, options);
+        } catch (error: unknown) {
+          reject(error);
+          return;
         }
         
-        const putRequest = store.put(updated);
+        // Merge patch with existing entry
+        let putRequest: IDBRequest;
+        try {
+          putRequest = store.put(applyPatch(existing, patch));
+        } catch (error: unknown) {
+          // Structured clone rejects values such as functions
+          reject(new PersistenceError('Failed to update entry', error instanceof Error ? error : undefined));
+          tx.abort();
+          return;
+        }
         
         putRequest.onsuccess = () => resolve();
         putRequest.onerror = () => {
-          reject(new PersistenceError('Failed to update entry', putRequest.error ?? undefined));
+          reject(toPersistenceError('Failed to update entry', putRequest.error));
         };
       };
       
@@ -306,32 +530,6 @@ export class IndexedDBStorage implements LedgerStorage {
     return this.transaction('readonly', (store) => store.count());
   }
 
-  /**
-   * Deserialize an entry from storage.
-   */
-  private deserializeEntry(stored: Record<string, unknown>): LedgerEntry {
-    const request = stored['request'] as Record<string, unknown>;
-    
-    return {
-      id: stored['id'] as string,
-      request: {
-        url: request['url'] as string,
-        method: request['method'] as LedgerEntry['request']['method'],
-        headers: request['headers'] as Record<string, string>,
-        body: request['body'] ? JSON.parse(request['body'] as string) : undefined,
-      },
-      status: stored['status'] as LedgerEntry['status'],
-      attemptCount: stored['attemptCount'] as number,
-      createdAt: stored['createdAt'] as number,
-      lastAttemptAt: stored['lastAttemptAt'] as number | undefined,
-      error: stored['error'] as LedgerEntry['error'],
-      idempotencyKey: stored['idempotencyKey'] as string | undefined,
-      metadata: stored['metadata'] 
-        ? JSON.parse(stored['metadata'] as string) 
-        : undefined,
-    };
-  }
-
   /**
    * Close the database connection.
    */
@@ -0,0 +1,147 @@
+/**
+ * In-Memory Storage Adapter
+ *
+ * Implements the LedgerStorage interface with a plain Map. Intended for
+ * tests, server-side rendering and runtimes without IndexedDB.
+ * Entries do not survive process restarts.
+ */
+
+import type {
+  EvictionPolicy,
+  LedgerEntry,
+  LedgerQuery,
+  LedgerStorage,
+  MemoryStorageConfig,
+  LedgerEntryPatch,
+  UpdateOptions,
+} from '../types.js';
+import { PersistenceError, EntryNotFoundError, DuplicateEntryError } from '../types.js';
+import { cloneEntry, applyPatch, checkRevision, compareEntries } from './entries.js';
+import { applyQuery } from './query.js';
+import { DEFAULT_EVICTION_POLICY, selectEvictions, type StorageLimits } from './eviction.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory implementation of LedgerStorage.
+ *
+ * Mirrors IndexedDBStorage semantics:
+ * - Entries are stored as structured clones, so callers never share references
+ * - Entries ordered by createdAt
+ * - Max size enforcement with a configurable eviction policy
+ */
+export class MemoryStorage implements LedgerStorage {
+  private readonly limits: StorageLimits;
+  private readonly evictionPolicy: EvictionPolicy;
+  private readonly onEvict: ((entry: LedgerEntry) => void) | undefined;
+  private readonly entries = new Map<string, LedgerEntry>();
+
+  constructor(config: MemoryStorageConfig = {}) {
+    this.limits = {
+      maxEntries: config.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxBytes: config.maxBytes,
+    };
+    this.evictionPolicy = config.evictionPolicy ?? DEFAULT_EVICTION_POLICY;
+    this.onEvict = config.onEvict;
+  }
+
+  /**
+   * Store a new entry.
+   * Throws DuplicateEntryError if entry with same ID exists.
+   * Applies the eviction policy if maxEntries or maxBytes is exceeded.
+   */
+  async put(entry: LedgerEntry): Promise<void> {
+    if (this.entries.has(entry.id)) {
+      throw new DuplicateEntryError(entry.id);
+    }
+
+    let stored: LedgerEntry;
+    try {
+      stored = cloneEntry(entry);
+    } catch (error: unknown) {
+      // Structured clone rejects values such as functions
+      throw new PersistenceError('Failed to add entry', error instanceof Error ? error : undefined);
+    }
+
+    const victims = selectEvictions(this.sorted(), stored, this.evictionPolicy, this.limits);
+
+    this.entries.set(entry.id, stored);
+    for (const victim of victims) {
+      this.entries.delete(victim.id);
+    }
+    for (const victim of victims) {
+      this.onEvict?.(cloneEntry(victim));
+    }
+  }
+
+  /**
+   * Get all entries ordered by createdAt ascending.
+   */
+  async getAll(): Promise<LedgerEntry[]> {
+    return this.sorted().map((stored) => cloneEntry(stored));
+  }
+
+  /**
+   * Get entries matching a filter, ordered by createdAt ascending.
+   */
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    return applyQuery(this.sorted(), query).map((stored) => cloneEntry(stored));
+  }
+
+  /**
+   * Get a single entry by ID.
+   */
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    const stored = this.entries.get(id);
+    return stored ? cloneEntry(stored) : undefined;
+  }
+
+  /**
+   * Update an existing entry.
+   */
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
+    const existing = this.entries.get(id);
+
+    if (!existing) {
+      throw new EntryNotFoundError(id);
+    }
+    checkRevision(existing, options);
+
+    let updated: LedgerEntry;
+    try {
+      updated = cloneEntry(applyPatch(existing, patch));
+    } catch (error: unknown) {
+      throw new PersistenceError('Failed to update entry', error instanceof Error ? error : undefined);
+    }
+
+    this.entries.set(id, updated);
+  }
+
+  /**
+   * Remove an entry by ID.
+   */
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Get the count of entries.
+   */
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  /**
+   * Stored entries ordered by createdAt ascending.
+   */
+  private sorted(): LedgerEntry[] {
+    return Array.from(this.entries.values()).sort(compareEntries);
+  }
+}
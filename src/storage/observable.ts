@@ -0,0 +1,71 @@
+/**
+ * Observable Storage Wrapper
+ *
+ * Wraps a LedgerStorage and reports every successful mutation, so the
+ * ledger can notify subscribers without each adapter emitting events.
+ */
+
+import type {
+  LedgerChange,
+  LedgerEntry,
+  LedgerEntryPatch,
+  LedgerQuery,
+  LedgerStorage,
+  UpdateOptions,
+} from '../types.js';
+import { queryStorage } from './query.js';
+
+/**
+ * LedgerStorage wrapper that reports put, update, remove and clear
+ * after they succeed.
+ */
+export class ObservableStorage implements LedgerStorage {
+  constructor(
+    private readonly storage: LedgerStorage,
+    private readonly onChange: (change: Omit<LedgerChange, 'remote'>) => void
+  ) {}
+
+  async put(entry: LedgerEntry): Promise<void> {
+    await this.storage.put(entry);
+    this.onChange({ type: 'put', entryId: entry.id });
+  }
+
+  async getAll(): Promise<LedgerEntry[]> {
+    return this.storage.getAll();
+  }
+
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    return queryStorage(this.storage, query);
+  }
+
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    return this.storage.get(id);
+  }
+
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
+    await this.storage.update(id, patch, options);
+    this.onChange({ type: 'update', entryId: id });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.remove(id);
+    this.onChange({ type: 'remove', entryId: id });
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.onChange({ type: 'clear' });
+  }
+
+  async count(): Promise<number> {
+    return this.storage.count();
+  }
+
+  /**
+   * Close the underlying storage, if it supports closing.
+   */
+  async close(): Promise<void> {
+    const storage = this.storage as LedgerStorage & { close?: () => void | Promise<void> };
+    await storage.close?.();
+  }
+}
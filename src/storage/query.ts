@@ -0,0 +1,85 @@
+/**
+ * Entry Queries
+ *
+ * In-memory evaluation of LedgerQuery filters, used by adapters without
+ * indexes and as the fallback for storages that do not implement `query`.
+ */
+
+import type { EntryStatus, LedgerEntry, LedgerQuery, LedgerStorage } from '../types.js';
+import { compareEntries } from './entries.js';
+
+/**
+ * Queue of entries stored without a `queue` field.
+ */
+export const DEFAULT_QUEUE = 'default';
+
+/**
+ * The queue an entry belongs to.
+ */
+export function entryQueue(entry: Pick<LedgerEntry, 'queue'>): string {
+  return entry.queue ?? DEFAULT_QUEUE;
+}
+
+/**
+ * Whether an entry may be attempted at the given time.
+ */
+export function isDue(entry: Pick<LedgerEntry, 'nextAttemptAt'>, now: number): boolean {
+  return entry.nextAttemptAt === undefined || entry.nextAttemptAt <= now;
+}
+
+/**
+ * Normalize the status filter to a list, or undefined for "any status".
+ */
+export function queryStatuses(query: LedgerQuery): EntryStatus[] | undefined {
+  if (query.status === undefined) {
+    return undefined;
+  }
+  return Array.isArray(query.status) ? query.status : [query.status];
+}
+
+/**
+ * Check whether an entry matches a query's filter criteria.
+ * Ignores `limit`.
+ */
+export function matchesQuery(entry: LedgerEntry, query: LedgerQuery): boolean {
+  const statuses = queryStatuses(query);
+  if (statuses && !statuses.includes(entry.status)) {
+    return false;
+  }
+
+  if (query.idempotencyKey !== undefined && entry.idempotencyKey !== query.idempotencyKey) {
+    return false;
+  }
+
+  if (query.queue !== undefined && entryQueue(entry) !== query.queue) {
+    return false;
+  }
+
+  if (query.dueBy !== undefined && !isDue(entry, query.dueBy)) {
+    return false;
+  }
+
+  if (query.after && compareEntries(entry, query.after) <= 0) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply a query to entries already ordered by createdAt ascending.
+ */
+export function applyQuery(entries: LedgerEntry[], query: LedgerQuery): LedgerEntry[] {
+  const matches = entries.filter((entry) => matchesQuery(entry, query));
+  return query.limit === undefined ? matches : matches.slice(0, query.limit);
+}
+
+/**
+ * Query a storage, using its `query` method when available.
+ */
+export async function queryStorage(storage: LedgerStorage, query: LedgerQuery): Promise<LedgerEntry[]> {
+  if (storage.query) {
+    return storage.query(query);
+  }
+  return applyQuery(await storage.getAll(), query);
+}
@@ -0,0 +1,111 @@
+/**
+ * Ledger Snapshots
+ *
+ * Versioned JSON documents holding every entry of a ledger, for moving a
+ * queue between environments (e.g. from a customer's browser into a test
+ * setup). Entries use the same serialized form as text-based adapters.
+ */
+
+import type { EntryStatus, LedgerEntry, LedgerSnapshot } from '../types.js';
+import { LedgerError } from '../types.js';
+import { compareEntries, deserializeEntry, serializeEntry } from './entries.js';
+
+const SNAPSHOT_FORMAT = 'request-ledger-snapshot';
+
+/**
+ * Current snapshot schema version. Bump when the snapshot layout changes,
+ * and keep `readSnapshot` able to read older versions.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+const ENTRY_STATUSES: EntryStatus[] = ['pending', 'processing', 'completed', 'failed', 'blocked'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+/**
+ * Whether a snapshot entry has the fields every entry needs, in their
+ * serialized form (JSON text body and metadata).
+ */
+function isSnapshotEntry(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    return false;
+  }
+  const request = value['request'];
+  return typeof value['id'] === 'string'
+    && isObject(request)
+    && typeof request['url'] === 'string'
+    && typeof request['method'] === 'string'
+    && isObject(request['headers'])
+    && Object.values(request['headers']).every((header) => typeof header === 'string')
+    && isOptionalString(request['body'])
+    && ENTRY_STATUSES.includes(value['status'] as EntryStatus)
+    && Number.isInteger(value['attemptCount']) && (value['attemptCount'] as number) >= 0
+    && typeof value['createdAt'] === 'number'
+    && isOptionalString(value['metadata']);
+}
+
+/**
+ * Build a snapshot of the given entries.
+ *
+ * @param entries Entries to include
+ * @param ledger Description of the ledger being exported
+ */
+export function createSnapshot(
+  entries: LedgerEntry[],
+  ledger: Omit<LedgerSnapshot['ledger'], 'entryCount'>
+): LedgerSnapshot {
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: Date.now(),
+    ledger: { ...ledger, entryCount: entries.length },
+    entries: [...entries].sort(compareEntries).map(serializeEntry),
+  };
+}
+
+/**
+ * Check a snapshot's format and version and return its entries.
+ *
+ * @param snapshot A snapshot, typically parsed from JSON
+ * @throws LedgerError if the document is not a snapshot, its version is
+ *   unsupported or an entry is malformed
+ */
+export function readSnapshot(snapshot: LedgerSnapshot): LedgerEntry[] {
+  const value = snapshot as Partial<LedgerSnapshot> | null;
+
+  if (value === null || typeof value !== 'object' || value.format !== SNAPSHOT_FORMAT) {
+    throw new LedgerError('Not a request-ledger snapshot');
+  }
+
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new LedgerError(`Invalid snapshot version: ${String(value.version)}`);
+  }
+
+  if (value.version > SNAPSHOT_VERSION) {
+    throw new LedgerError(
+      `Snapshot version ${value.version} is newer than supported version ${SNAPSHOT_VERSION}`
+    );
+  }
+
+  if (!Array.isArray(value.entries)) {
+    throw new LedgerError('Snapshot has no entries array');
+  }
+
+  return value.entries.map((entry: unknown, index) => {
+    if (!isSnapshotEntry(entry)) {
+      throw new LedgerError(`Malformed snapshot entry at index ${index}`);
+    }
+    try {
+      return deserializeEntry(entry);
+    } catch {
+      // Body or metadata that is not valid JSON text
+      throw new LedgerError(`Malformed snapshot entry at index ${index}`);
+    }
+  });
+}
@@ -0,0 +1,435 @@
+/**
+ * SQLite Storage Adapter
+ *
+ * Implements the LedgerStorage interface on Node's built-in `node:sqlite`
+ * module, for desktop and edge deployments with large queues. Adds no
+ * runtime dependency: the module is loaded on first use.
+ */
+
+import type {
+  EvictionPolicy,
+  LedgerEntry,
+  LedgerQuery,
+  LedgerStorage,
+  SqliteStorageConfig,
+  LedgerEntryPatch,
+  UpdateOptions,
+} from '../types.js';
+import { LedgerError, PersistenceError, QuotaExceededError, EntryNotFoundError, DuplicateEntryError } from '../types.js';
+import { serializeEntry, deserializeEntry, applyPatch, checkRevision } from './entries.js';
+import { DEFAULT_QUEUE, queryStatuses } from './query.js';
+import { DEFAULT_EVICTION_POLICY, selectEvictions, type StorageLimits } from './eviction.js';
+
+const DEFAULT_TABLE_NAME = 'ledger_entries';
+const DEFAULT_MAX_ENTRIES = 1000;
+const SCHEMA_TABLE = 'request_ledger_schema';
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SQLITE_FULL = 13;
+
+/**
+ * The subset of `node:sqlite` used by this adapter.
+ */
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface EntryRow {
+  data: string;
+}
+
+/**
+ * A schema migration for the entries table.
+ */
+interface Migration {
+  version: number;
+  up: (table: string) => string;
+}
+
+/**
+ * Ordered schema migrations. Append new steps; never edit shipped ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: (table) => `
+      CREATE TABLE ${table} (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        idempotency_key TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX ${table}_status ON ${table} (status, created_at, id);
+      CREATE INDEX ${table}_created_at ON ${table} (created_at, id);
+      CREATE INDEX ${table}_idempotency_key ON ${table} (idempotency_key);
+    `,
+  },
+  {
+    // Named queues; NULL is the default queue
+    version: 2,
+    up: (table) => `
+      ALTER TABLE ${table} ADD COLUMN queue TEXT;
+      CREATE INDEX ${table}_queue_status ON ${table} (queue, status, created_at, id);
+    `,
+  },
+];
+
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Load `node:sqlite` at runtime.
+ *
+ * Goes through `process.getBuiltinModule` (present on every Node version
+ * that ships `node:sqlite`) so bundlers never try to resolve the module.
+ */
+function loadSqlite(): { DatabaseSync: new (path: string) => SqliteDatabase } {
+  const sqlite = globalThis.process?.getBuiltinModule?.('node:sqlite');
+  if (!sqlite) {
+    throw new PersistenceError('node:sqlite is not available in this runtime (requires Node.js 22.5+)');
+  }
+  return sqlite as { DatabaseSync: new (path: string) => SqliteDatabase };
+}
+
+/**
+ * SQLite implementation of LedgerStorage.
+ *
+ * Features:
+ * - Indexed status, createdAt, idempotencyKey and queue columns
+ * - Transactional put and update
+ * - Versioned schema with ordered migrations
+ * - Max size enforcement with a configurable eviction policy
+ */
+export class SqliteStorage implements LedgerStorage {
+  private readonly path: string;
+  private readonly table: string;
+  private readonly limits: StorageLimits;
+  private readonly evictionPolicy: EvictionPolicy;
+  private readonly onEvict: ((entry: LedgerEntry) => void) | undefined;
+  private db: SqliteDatabase | null = null;
+  private dbPromise: Promise<SqliteDatabase> | null = null;
+
+  constructor(config: SqliteStorageConfig) {
+    this.path = config.path;
+    this.table = config.tableName ?? DEFAULT_TABLE_NAME;
+    this.limits = {
+      maxEntries: config.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxBytes: config.maxBytes,
+    };
+    this.evictionPolicy = config.evictionPolicy ?? DEFAULT_EVICTION_POLICY;
+    this.onEvict = config.onEvict;
+
+    if (!IDENTIFIER.test(this.table)) {
+      throw new LedgerError(`Invalid SQLite table name: ${this.table}`);
+    }
+  }
+
+  /**
+   * Get or initialize the database connection.
+   */
+  private async getDb(): Promise<SqliteDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = (async () => {
+      let db: SqliteDatabase;
+      try {
+        db = new (loadSqlite().DatabaseSync)(this.path);
+      } catch (error: unknown) {
+        this.dbPromise = null;
+        throw new PersistenceError('Failed to open SQLite database', error instanceof Error ? error : undefined);
+      }
+
+      try {
+        this.migrate(db);
+      } catch (error: unknown) {
+        db.close();
+        this.dbPromise = null;
+        throw error instanceof PersistenceError
+          ? error
+          : new PersistenceError('Failed to migrate SQLite schema', error instanceof Error ? error : undefined);
+      }
+
+      this.db = db;
+      return db;
+    })();
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Bring the entries table up to the current schema version.
+   */
+  private migrate(db: SqliteDatabase): void {
+    this.inTransaction(db, () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${SCHEMA_TABLE} (
+          table_name TEXT PRIMARY KEY,
+          version INTEGER NOT NULL
+        )
+      `);
+
+      const row = db
+        .prepare(`SELECT version FROM ${SCHEMA_TABLE} WHERE table_name = ?`)
+        .get(this.table) as { version: number } | undefined;
+      const current = row?.version ?? 0;
+
+      if (current > SCHEMA_VERSION) {
+        throw new PersistenceError(
+          `SQLite table ${this.table} has schema version ${current}, newer than supported version ${SCHEMA_VERSION}`
+        );
+      }
+
+      for (const migration of MIGRATIONS) {
+        if (migration.version > current) {
+          db.exec(migration.up(this.table));
+        }
+      }
+
+      db.prepare(
+        `INSERT INTO ${SCHEMA_TABLE} (table_name, version) VALUES (?, ?)
+         ON CONFLICT (table_name) DO UPDATE SET version = excluded.version`
+      ).run(this.table, SCHEMA_VERSION);
+    });
+  }
+
+  /**
+   * Run an operation inside a write transaction.
+   */
+  private inTransaction<T>(db: SqliteDatabase, operation: () => T): T {
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = operation();
+      db.exec('COMMIT');
+      return result;
+    } catch (error: unknown) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Run a statement, wrapping driver errors in PersistenceError.
+   */
+  private async run<T>(message: string, operation: (db: SqliteDatabase) => T): Promise<T> {
+    const db = await this.getDb();
+    try {
+      return operation(db);
+    } catch (error: unknown) {
+      if (error instanceof LedgerError) {
+        throw error;
+      }
+      const cause = error instanceof Error ? error : undefined;
+      if ((error as { errcode?: number }).errcode === SQLITE_FULL) {
+        throw new QuotaExceededError(`Database full: ${message}`, cause);
+      }
+      throw new PersistenceError(message, cause);
+    }
+  }
+
+  /**
+   * Store a new entry.
+   * Throws DuplicateEntryError if entry with same ID exists.
+   * Applies the eviction policy if maxEntries or maxBytes is exceeded.
+   */
+  async put(entry: LedgerEntry): Promise<void> {
+    const evicted = await this.run('Failed to add entry', (db) => this.inTransaction(db, () => {
+      const existing = db.prepare(`SELECT 1 FROM ${this.table} WHERE id = ?`).get(entry.id);
+      if (existing) {
+        throw new DuplicateEntryError(entry.id);
+      }
+
+      db.prepare(
+        `INSERT INTO ${this.table} (id, status, created_at, idempotency_key, queue, data) VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(
+        entry.id,
+        entry.status,
+        entry.createdAt,
+        entry.idempotencyKey ?? null,
+        entry.queue ?? null,
+        JSON.stringify(serializeEntry(entry))
+      );
+
+      return this.evictIfNeeded(db, entry);
+    }));
+
+    for (const victim of evicted) {
+      this.onEvict?.(victim);
+    }
+  }
+
+  /**
+   * Evict entries per the eviction policy if maxEntries or maxBytes is exceeded.
+   * Throwing rolls back the surrounding transaction.
+   * 
+   * @returns The evicted entries
+   */
+  private evictIfNeeded(db: SqliteDatabase, incoming: LedgerEntry): LedgerEntry[] {
+    const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${this.table}`).get() as { count: number };
+
+    if (count <= this.limits.maxEntries && this.limits.maxBytes === undefined) {
+      return [];
+    }
+
+    const rows = db.prepare(`SELECT data FROM ${this.table} ORDER BY created_at, id`).all() as EntryRow[];
+    const victims = selectEvictions(
+      rows.map((row) => deserializeEntry(JSON.parse(row.data))),
+      incoming,
+      this.evictionPolicy,
+      this.limits
+    );
+
+    const remove = db.prepare(`DELETE FROM ${this.table} WHERE id = ?`);
+    for (const victim of victims) {
+      remove.run(victim.id);
+    }
+    return victims;
+  }
+
+  /**
+   * Get all entries ordered by createdAt ascending.
+   */
+  async getAll(): Promise<LedgerEntry[]> {
+    return this.run('Failed to get entries', (db) => {
+      const rows = db.prepare(`SELECT data FROM ${this.table} ORDER BY created_at, id`).all() as EntryRow[];
+      return rows.map((row) => deserializeEntry(JSON.parse(row.data)));
+    });
+  }
+
+  /**
+   * Get entries matching a filter, ordered by createdAt ascending.
+   * Uses the status, createdAt, idempotencyKey and queue indexes.
+   */
+  async query(query: LedgerQuery): Promise<LedgerEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const statuses = queryStatuses(query);
+    if (statuses) {
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...statuses);
+    }
+
+    if (query.idempotencyKey !== undefined) {
+      conditions.push('idempotency_key = ?');
+      params.push(query.idempotencyKey);
+    }
+
+    if (query.queue === DEFAULT_QUEUE) {
+      conditions.push('(queue IS NULL OR queue = ?)');
+      params.push(DEFAULT_QUEUE);
+    } else if (query.queue !== undefined) {
+      conditions.push('queue = ?');
+      params.push(query.queue);
+    }
+
+    if (query.dueBy !== undefined) {
+      conditions.push(`(json_extract(data, '$.nextAttemptAt') IS NULL OR json_extract(data, '$.nextAttemptAt') <= ?)`);
+      params.push(query.dueBy);
+    }
+
+    if (query.after) {
+      conditions.push('(created_at > ? OR (created_at = ? AND id > ?))');
+      params.push(query.after.createdAt, query.after.createdAt, query.after.id);
+    }
+
+    let sql = `SELECT data FROM ${this.table}`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY created_at, id';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    return this.run('Failed to query entries', (db) => {
+      const rows = db.prepare(sql).all(...params) as EntryRow[];
+      return rows.map((row) => deserializeEntry(JSON.parse(row.data)));
+    });
+  }
+
+  /**
+   * Get a single entry by ID.
+   */
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    return this.run('Failed to get entry', (db) => {
+      const row = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as EntryRow | undefined;
+      return row ? deserializeEntry(JSON.parse(row.data)) : undefined;
+    });
+  }
+
+  /**
+   * Update an existing entry.
+   */
+  async update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void> {
+    await this.run('Failed to update entry', (db) => this.inTransaction(db, () => {
+      const row = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as EntryRow | undefined;
+      if (!row) {
+        throw new EntryNotFoundError(id);
+      }
+
+      const current = deserializeEntry(JSON.parse(row.data));
+      checkRevision(current, options);
+
+      const updated = serializeEntry(applyPatch(current, patch));
+
+      db.prepare(`UPDATE ${this.table} SET status = ?, data = ? WHERE id = ?`).run(
+        updated.status,
+        JSON.stringify(updated),
+        id
+      );
+    }));
+  }
+
+  /**
+   * Remove an entry by ID.
+   */
+  async remove(id: string): Promise<void> {
+    await this.run('Failed to remove entry', (db) => {
+      db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    });
+  }
+
+  /**
+   * Remove all entries.
+   */
+  async clear(): Promise<void> {
+    await this.run('Failed to clear entries', (db) => {
+      db.prepare(`DELETE FROM ${this.table}`).run();
+    });
+  }
+
+  /**
+   * Get the count of entries.
+   */
+  async count(): Promise<number> {
+    return this.run('Failed to count entries', (db) => {
+      const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${this.table}`).get() as { count: number };
+      return count;
+    });
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.dbPromise = null;
+    }
+  }
+}
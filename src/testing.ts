@@ -0,0 +1,526 @@
+/**
+ * Request Ledger - Testing Entry Point
+ *
+ * A conformance suite for custom LedgerStorage adapters. It runs the
+ * scenarios the built-in adapters are tested with, so an adapter that
+ * passes behaves like IndexedDBStorage as far as the ledger can tell.
+ * Import from `request-ledger/testing`.
+ *
+ * @packageDocumentation
+ */
+
+import type { LedgerEntry, LedgerStorage } from './types.js';
+import { ConcurrentModificationError, DuplicateEntryError, EntryNotFoundError } from './types.js';
+
+type TestFn = () => void | Promise<void>;
+
+/**
+ * The test framework functions the suite registers its tests with.
+ * Vitest, Jest and Mocha all provide compatible functions.
+ */
+export interface ConformanceTestApi {
+  describe: (name: string, fn: () => void) => void;
+  it: (name: string, fn: TestFn) => void;
+  beforeEach: (fn: TestFn) => void;
+  afterEach: (fn: TestFn) => void;
+}
+
+/**
+ * Options for `runStorageConformanceTests`.
+ */
+export interface ConformanceTestOptions {
+  /**
+   * Name of the top-level describe block.
+   * @default 'LedgerStorage conformance'
+   */
+  name?: string;
+
+  /**
+   * Test framework functions.
+   * @default the global describe, it, beforeEach and afterEach
+   */
+  api?: ConformanceTestApi;
+}
+
+/**
+ * Creates an empty storage for one test. Storages with a `close()`
+ * method are closed after the test.
+ */
+export type StorageFactory = () => LedgerStorage | Promise<LedgerStorage>;
+
+/**
+ * Error thrown when an adapter does not meet the LedgerStorage contract.
+ */
+class ConformanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConformanceError';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value instanceof ArrayBuffer) {
+    return `ArrayBuffer(${Array.from(new Uint8Array(value)).join(', ')})`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Deep equality in the sense of a test framework's `toEqual`:
+ * keys with undefined values are ignored, ArrayBuffers compare by content.
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) {
+    return true;
+  }
+
+  if (actual instanceof ArrayBuffer || expected instanceof ArrayBuffer) {
+    if (!(actual instanceof ArrayBuffer && expected instanceof ArrayBuffer)) {
+      return false;
+    }
+    return isEqual(Array.from(new Uint8Array(actual)), Array.from(new Uint8Array(expected)));
+  }
+
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return Array.isArray(actual) && Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((item, index) => isEqual(item, expected[index]));
+  }
+
+  if (actual === null || expected === null || typeof actual !== 'object' || typeof expected !== 'object') {
+    return false;
+  }
+
+  const a = actual as Record<string, unknown>;
+  const b = expected as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (!isEqual(a[key], b[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function assertEqual(actual: unknown, expected: unknown, what: string): void {
+  if (!isEqual(actual, expected)) {
+    throw new ConformanceError(`${what}: expected ${describeValue(expected)}, got ${describeValue(actual)}`);
+  }
+}
+
+/**
+ * Assert that a promise rejects with the given error class. The error's
+ * name is accepted too, for adapters loaded from a different bundle.
+ *
+ * @returns The error
+ */
+async function assertRejects(
+  promise: Promise<unknown>,
+  errorClass: new (...args: never[]) => Error,
+  what: string
+): Promise<Error> {
+  let error: unknown;
+  try {
+    await promise;
+  } catch (caught: unknown) {
+    error = caught;
+  }
+
+  if (error === undefined) {
+    throw new ConformanceError(`${what}: expected ${errorClass.name}, but it resolved`);
+  }
+  if (!(error instanceof errorClass) && (error as Error | null)?.name !== errorClass.name) {
+    throw new ConformanceError(`${what}: expected ${errorClass.name}, got ${String(error)}`);
+  }
+  return error as Error;
+}
+
+function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    request: {
+      url: 'https://api.example.com/test',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { test: 'data' },
+    },
+    status: 'pending',
+    attemptCount: 0,
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+const ids = (entries: LedgerEntry[]) => entries.map((entry) => entry.id);
+
+function globalApi(): ConformanceTestApi {
+  const scope = globalThis as unknown as Partial<ConformanceTestApi>;
+  const { describe, it, beforeEach, afterEach } = scope;
+  if (!describe || !it || !beforeEach || !afterEach) {
+    throw new Error(
+      'runStorageConformanceTests: no global describe/it/beforeEach/afterEach; pass them as options.api'
+    );
+  }
+  return { describe, it, beforeEach, afterEach };
+}
+
+/**
+ * Register tests checking that a storage adapter meets the LedgerStorage
+ * contract: duplicate rejection, createdAt ordering, body and metadata
+ * round-trips, patch semantics, revisions and compare-and-set updates,
+ * EntryNotFoundError on update, and (when the adapter implements it) `query`.
+ *
+ * Call it at the top level of a test file.
+ *
+ * @example
+ * ```ts
+ * import { runStorageConformanceTests } from 'request-ledger/testing';
+ *
+ * runStorageConformanceTests(() => new MyStorage({ name: crypto.randomUUID() }));
+ * ```
+ *
+ * @param factory Creates an empty storage for each test
+ * @param options Suite name and test framework functions
+ */
+export function runStorageConformanceTests(factory: StorageFactory, options: ConformanceTestOptions = {}): void {
+  const { describe, it, beforeEach, afterEach } = options.api ?? globalApi();
+  let storage: LedgerStorage;
+
+  describe(options.name ?? 'LedgerStorage conformance', () => {
+    beforeEach(async () => {
+      storage = await factory();
+    });
+
+    afterEach(async () => {
+      const closable = storage as LedgerStorage & { close?: () => void | Promise<void> };
+      await closable.close?.();
+    });
+
+    describe('put', () => {
+      it('should store a new entry', async () => {
+        await storage.put(createEntry('test-1'));
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.id, 'test-1', 'get(id).id');
+        assertEqual(retrieved?.request.url, 'https://api.example.com/test', 'get(id).request.url');
+      });
+
+      it('should throw DuplicateEntryError for duplicate ID', async () => {
+        const entry = createEntry('test-1');
+        await storage.put(entry);
+
+        await assertRejects(storage.put(entry), DuplicateEntryError, 'put() of an existing ID');
+      });
+
+      it('should serialize and deserialize body correctly', async () => {
+        await storage.put(createEntry('test-1', {
+          request: {
+            url: 'https://api.example.com/test',
+            method: 'POST',
+            headers: {},
+            body: { nested: { data: [1, 2, 3] } },
+          },
+        }));
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.request.body, { nested: { data: [1, 2, 3] } }, 'request.body');
+      });
+
+      it('should round-trip binary and form bodies', async () => {
+        await storage.put(createEntry('blob', {
+          request: {
+            url: 'https://api.example.com/upload',
+            method: 'PUT',
+            headers: {},
+            body: new Uint8Array([0, 1, 254, 255]).buffer,
+            encoding: { kind: 'blob', contentType: 'application/octet-stream' },
+          },
+        }));
+        await storage.put(createEntry('form', {
+          request: {
+            url: 'https://api.example.com/upload',
+            method: 'POST',
+            headers: {},
+            body: [
+              { name: 'title', value: 'Report' },
+              { name: 'file', value: new Uint8Array([1, 2, 3]).buffer, type: 'image/png', filename: 'a.png' },
+            ],
+            encoding: { kind: 'form' },
+          },
+        }));
+
+        const blob = await storage.get('blob');
+        assertEqual(blob?.request.encoding, { kind: 'blob', contentType: 'application/octet-stream' }, 'request.encoding');
+        assertEqual(blob?.request.body, new Uint8Array([0, 1, 254, 255]).buffer, 'binary request.body');
+
+        const form = await storage.get('form');
+        assertEqual(form?.request.body, [
+          { name: 'title', value: 'Report' },
+          { name: 'file', value: new Uint8Array([1, 2, 3]).buffer, type: 'image/png', filename: 'a.png' },
+        ], 'form request.body');
+      });
+
+      it('should serialize and deserialize metadata correctly', async () => {
+        await storage.put(createEntry('test-1', { metadata: { userId: 123, action: 'create' } }));
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.metadata, { userId: 123, action: 'create' }, 'metadata');
+      });
+
+      it('should keep optional fields', async () => {
+        const entry = createEntry('test-1', {
+          status: 'completed',
+          attemptCount: 2,
+          lastAttemptAt: 1500,
+          nextAttemptAt: 1800,
+          completedAt: 2000,
+          response: { status: 201 },
+          idempotencyKey: 'key-1',
+          queue: 'mutations',
+          dependsOn: ['test-0'],
+          orderingKey: 'doc-1',
+          priority: 5,
+          coalesceKey: 'doc-1',
+          coalescedIds: ['test-2'],
+        });
+        await storage.put(entry);
+
+        assertEqual(await storage.get('test-1'), entry, 'get(id)');
+      });
+
+      it('should not share references with the caller', async () => {
+        const entry = createEntry('test-1', { metadata: { tags: ['a'] } });
+        await storage.put(entry);
+
+        (entry.request.body as { test: string }).test = 'mutated';
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.request.body, { test: 'data' }, 'request.body after the caller mutated it');
+        assertEqual(retrieved?.metadata, { tags: ['a'] }, 'metadata');
+      });
+    });
+
+    describe('get', () => {
+      it('should return undefined for non-existent entry', async () => {
+        assertEqual(await storage.get('non-existent'), undefined, 'get() of a missing ID');
+      });
+    });
+
+    describe('getAll', () => {
+      it('should return entries ordered by createdAt, then ID', async () => {
+        await storage.put(createEntry('test-1', { createdAt: 1000 }));
+        await storage.put(createEntry('test-2', { createdAt: 3000 }));
+        await storage.put(createEntry('test-4', { createdAt: 2000 }));
+        await storage.put(createEntry('test-3', { createdAt: 2000 }));
+
+        assertEqual(ids(await storage.getAll()), ['test-1', 'test-3', 'test-4', 'test-2'], 'getAll() order');
+      });
+
+      it('should return empty array when no entries exist', async () => {
+        assertEqual(await storage.getAll(), [], 'getAll() of an empty storage');
+      });
+    });
+
+    describe('query', () => {
+      beforeEach(async () => {
+        if (!storage.query) return;
+        await storage.put(createEntry('a', { createdAt: 1000, status: 'pending' }));
+        await storage.put(createEntry('b', { createdAt: 2000, status: 'failed', idempotencyKey: 'key-1' }));
+        await storage.put(createEntry('c', { createdAt: 2000, status: 'pending', idempotencyKey: 'key-1' }));
+        await storage.put(createEntry('d', { createdAt: 3000, status: 'processing' }));
+        await storage.put(createEntry('e', { createdAt: 4000, status: 'pending', queue: 'mutations' }));
+      });
+
+      // Adapters without query are filtered by the ledger in memory
+      const itIfQuery = (name: string, fn: (query: NonNullable<LedgerStorage['query']>) => Promise<void>) =>
+        it(name, async () => {
+          if (storage.query) {
+            await fn(storage.query.bind(storage));
+          }
+        });
+
+      itIfQuery('should filter by status in createdAt order', async (query) => {
+        assertEqual(ids(await query({ status: 'pending' })), ['a', 'c', 'e'], 'query({ status })');
+        assertEqual(ids(await query({ status: ['processing', 'pending'] })), ['a', 'c', 'd', 'e'], 'query({ status: [...] })');
+      });
+
+      itIfQuery('should filter by idempotency key', async (query) => {
+        assertEqual(ids(await query({ idempotencyKey: 'key-1' })), ['b', 'c'], 'query({ idempotencyKey })');
+        assertEqual(ids(await query({ idempotencyKey: 'key-1', status: 'failed' })), ['b'], 'query({ idempotencyKey, status })');
+      });
+
+      itIfQuery('should filter by queue, treating entries without one as default', async (query) => {
+        await storage.put(createEntry('f', { createdAt: 5000, status: 'pending', queue: 'mutations' }));
+        assertEqual(ids(await query({ queue: 'mutations' })), ['e', 'f'], 'query({ queue })');
+        assertEqual(ids(await query({ queue: 'mutations', status: 'pending', limit: 1 })), ['e'], 'query({ queue, limit })');
+        assertEqual(ids(await query({ queue: 'default', status: 'pending' })), ['a', 'c'], "query({ queue: 'default' })");
+      });
+
+      itIfQuery('should filter by dueBy, treating entries without nextAttemptAt as due', async (query) => {
+        await storage.update('a', { nextAttemptAt: 5000 });
+        assertEqual(ids(await query({ status: 'pending', dueBy: 4999 })), ['c', 'e'], 'query({ dueBy }) before due');
+        assertEqual(ids(await query({ status: 'pending', dueBy: 4999, limit: 1 })), ['c'], 'query({ dueBy, limit })');
+        assertEqual(ids(await query({ status: 'pending', dueBy: 5000 })), ['a', 'c', 'e'], 'query({ dueBy }) once due');
+      });
+
+      itIfQuery('should apply limit', async (query) => {
+        assertEqual(ids(await query({ status: 'pending', limit: 2 })), ['a', 'c'], 'query({ status, limit })');
+        assertEqual(ids(await query({ limit: 1 })), ['a'], 'query({ limit })');
+      });
+
+      itIfQuery('should paginate with after, including createdAt ties', async (query) => {
+        const first = await query({ limit: 2 });
+        assertEqual(ids(first), ['a', 'b'], 'first page');
+        assertEqual(ids(await query({ limit: 2, after: first[1]! })), ['c', 'd'], 'second page');
+        assertEqual(
+          ids(await query({ status: 'pending', after: { id: 'c', createdAt: 2000 } })),
+          ['e'],
+          'query({ status, after })'
+        );
+      });
+    });
+
+    describe('update', () => {
+      it('should update an existing entry', async () => {
+        await storage.put(createEntry('test-1'));
+
+        await storage.update('test-1', { status: 'processing', attemptCount: 1, lastAttemptAt: 12345 });
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.status, 'processing', 'status');
+        assertEqual(retrieved?.attemptCount, 1, 'attemptCount');
+        assertEqual(retrieved?.lastAttemptAt, 12345, 'lastAttemptAt');
+      });
+
+      it('should clear error when patched with undefined', async () => {
+        await storage.put(createEntry('test-1', { status: 'failed', error: { message: 'boom' } }));
+
+        await storage.update('test-1', { status: 'pending', error: undefined });
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.status, 'pending', 'status');
+        assertEqual(retrieved?.error, undefined, 'error after patching it with undefined');
+      });
+
+      it('should clear nextAttemptAt when patched with undefined', async () => {
+        await storage.put(createEntry('test-1', { nextAttemptAt: 12345 }));
+
+        await storage.update('test-1', { nextAttemptAt: undefined });
+
+        assertEqual((await storage.get('test-1'))?.nextAttemptAt, undefined, 'nextAttemptAt after patching it with undefined');
+      });
+
+      it('should keep error when the patch does not mention it', async () => {
+        await storage.put(createEntry('test-1', { status: 'failed', error: { message: 'boom', code: '500' } }));
+
+        await storage.update('test-1', { attemptCount: 3 });
+
+        assertEqual((await storage.get('test-1'))?.error, { message: 'boom', code: '500' }, 'error');
+      });
+
+      it('should replace request and clear metadata', async () => {
+        await storage.put(createEntry('test-1', { metadata: { source: 'test' } }));
+
+        await storage.update('test-1', {
+          request: { url: 'https://api.example.com/other', method: 'PUT', headers: {}, body: [1, 2] },
+          metadata: undefined,
+        });
+
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.request, {
+          url: 'https://api.example.com/other',
+          method: 'PUT',
+          headers: {},
+          body: [1, 2],
+        }, 'request');
+        assertEqual(retrieved?.metadata, undefined, 'metadata after patching it with undefined');
+      });
+
+      it('should record coalesced IDs', async () => {
+        await storage.put(createEntry('test-1'));
+
+        await storage.update('test-1', { coalescedIds: ['test-2'] });
+
+        assertEqual((await storage.get('test-1'))?.coalescedIds, ['test-2'], 'coalescedIds');
+      });
+
+      it('should increment the revision on every update', async () => {
+        await storage.put(createEntry('test-1'));
+        assertEqual((await storage.get('test-1'))?.revision, undefined, 'revision before any update');
+
+        await storage.update('test-1', { status: 'processing' });
+        await storage.update('test-1', { status: 'pending' }, { expectedRevision: 1 });
+
+        assertEqual((await storage.get('test-1'))?.revision, 2, 'revision after two updates');
+      });
+
+      it('should throw ConcurrentModificationError on a stale expectedRevision', async () => {
+        await storage.put(createEntry('test-1'));
+        await storage.update('test-1', { status: 'failed' });
+
+        const error = await assertRejects(
+          storage.update('test-1', { status: 'pending' }, { expectedRevision: 0 }),
+          ConcurrentModificationError,
+          'update() with a stale expectedRevision'
+        ) as ConcurrentModificationError;
+        assertEqual(
+          { entryId: error.entryId, expectedRevision: error.expectedRevision, actualRevision: error.actualRevision },
+          { entryId: 'test-1', expectedRevision: 0, actualRevision: 1 },
+          'ConcurrentModificationError fields'
+        );
+        const retrieved = await storage.get('test-1');
+        assertEqual(retrieved?.status, 'failed', 'status after a rejected update');
+        assertEqual(retrieved?.revision, 1, 'revision after a rejected update');
+      });
+
+      it('should throw EntryNotFoundError for non-existent entry', async () => {
+        await assertRejects(
+          storage.update('non-existent', { status: 'failed' }),
+          EntryNotFoundError,
+          'update() of a missing ID'
+        );
+      });
+    });
+
+    describe('remove', () => {
+      it('should remove an entry', async () => {
+        await storage.put(createEntry('test-1'));
+
+        await storage.remove('test-1');
+
+        assertEqual(await storage.get('test-1'), undefined, 'get() after remove()');
+      });
+
+      it('should not throw for non-existent entry', async () => {
+        await storage.remove('non-existent');
+      });
+    });
+
+    describe('clear', () => {
+      it('should remove all entries', async () => {
+        await storage.put(createEntry('test-1'));
+        await storage.put(createEntry('test-2'));
+
+        await storage.clear();
+
+        assertEqual(await storage.getAll(), [], 'getAll() after clear()');
+      });
+    });
+
+    describe('count', () => {
+      it('should return correct count', async () => {
+        assertEqual(await storage.count(), 0, 'count() of an empty storage');
+
+        await storage.put(createEntry('test-1'));
+        await storage.put(createEntry('test-2'));
+        assertEqual(await storage.count(), 2, 'count() after two puts');
+
+        await storage.remove('test-1');
+        assertEqual(await storage.count(), 1, 'count() after remove()');
+      });
+    });
+  });
+}
@@ -23,10 +23,12 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
  * 
  * - `pending`: Request is queued and waiting to be processed
  * - `processing`: Request is currently being executed
- * - `completed`: Request completed successfully (transient, removed after success)
+ * - `completed`: Request completed successfully (kept only with `LedgerConfig.retention`)
  * - `failed`: Request failed after all retry attempts
+ * - `blocked`: An entry it depends on failed; it returns to `pending`
+ *   when that entry is retried
  */
-export type EntryStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type EntryStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'blocked';
 
 /**
  * Error information stored with a failed entry.
@@ -38,6 +40,33 @@ export interface EntryError {
   code?: string;
 }
 
+/**
+ * How a request body is encoded.
+ * - `json`: any JSON value, sent as `application/json`
+ * - `text`: a string, sent as-is
+ * - `form`: `FormData`, including file parts
+ * - `blob`: `Blob`, `ArrayBuffer` or a typed array
+ * - `urlencoded`: `URLSearchParams`
+ */
+export type BodyKind = 'json' | 'text' | 'form' | 'blob' | 'urlencoded';
+
+/**
+ * Encoding tag stored alongside a non-JSON request body.
+ */
+export interface BodyEncoding {
+  kind: BodyKind;
+  
+  /** Content type of a `blob` body (the Blob's `type`) */
+  contentType?: string;
+}
+
+/**
+ * A `FormData` field as stored: a string value or a binary file part.
+ */
+export type StoredFormField =
+  | { name: string; value: string }
+  | { name: string; value: ArrayBuffer; type: string; filename: string };
+
 /**
  * The HTTP request data stored in a ledger entry.
  */
@@ -45,7 +74,16 @@ export interface StoredRequest {
   url: string;
   method: HttpMethod;
   headers: Record<string, string>;
+  
+  /**
+   * Request body, in the stored form of its encoding:
+   * a JSON value, a string (`text`, `urlencoded`), an `ArrayBuffer` (`blob`)
+   * or a list of fields (`form`).
+   */
   body: unknown;
+  
+  /** Body encoding. Absent for JSON bodies. */
+  encoding?: BodyEncoding;
 }
 
 /**
@@ -73,12 +111,48 @@ export interface LedgerEntry {
   /** Timestamp of last attempt (ms since epoch) */
   lastAttemptAt?: number;
   
+  /**
+   * Earliest time of the next attempt (ms since epoch), set from the
+   * retry backoff. Absent when the entry may be sent right away.
+   */
+  nextAttemptAt?: number;
+  
   /** Error information if status is 'failed' */
   error?: EntryError;
   
+  /** Timestamp when the request succeeded (ms since epoch), if retained */
+  completedAt?: number;
+  
+  /** Summary of the successful response, if retained */
+  response?: ResponseSummary;
+  
   /** Optional idempotency key for safe replay */
   idempotencyKey?: string;
   
+  /** Queue this entry belongs to. Absent for the default queue. */
+  queue?: string;
+  
+  /** IDs of entries that must succeed before this one is sent */
+  dependsOn?: string[];
+  
+  /** Entries sharing this key are sent one at a time, in createdAt order */
+  orderingKey?: string;
+  
+  /** Replay priority; higher is sent sooner. Absent for the default of 0. */
+  priority?: number;
+  
+  /** Key under which newer requests replace this one while it is queued */
+  coalesceKey?: string;
+  
+  /** IDs of newer requests coalesced into this entry */
+  coalescedIds?: string[];
+  
+  /**
+   * Incremented by the storage on every update, for compare-and-set
+   * updates. Absent (counts as 0) until the first update.
+   */
+  revision?: number;
+  
   /** Optional user-provided metadata */
   metadata?: Record<string, unknown>;
 }
@@ -91,13 +165,124 @@ export type LedgerEntryPatch = {
   status?: EntryStatus;
   attemptCount?: number;
   lastAttemptAt?: number;
+  nextAttemptAt?: number | undefined;
   error?: EntryError | undefined;
+  /** Replace the stored request (e.g. to re-encrypt it) */
+  request?: StoredRequest;
+  metadata?: Record<string, unknown> | undefined;
+  coalescedIds?: string[];
+  completedAt?: number;
+  response?: ResponseSummary;
 };
 
+/**
+ * Options for `LedgerStorage.update`.
+ */
+export interface UpdateOptions {
+  /**
+   * Only apply the patch if the stored entry is at this revision.
+   * Otherwise the update throws ConcurrentModificationError and changes nothing.
+   */
+  expectedRevision?: number;
+}
+
+/**
+ * What a retained entry records about the response that completed it.
+ */
+export interface ResponseSummary {
+  /** HTTP status code */
+  status: number;
+  
+  /** HTTP status text, if any */
+  statusText?: string;
+  
+  /** Selected response headers (Content-Type, Location, ETag), lowercased */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Filter for querying ledger entries.
+ * All provided criteria must match. Results are ordered by createdAt ascending.
+ */
+export interface LedgerQuery {
+  /** Only return entries with this status (or any of these statuses) */
+  status?: EntryStatus | EntryStatus[];
+  
+  /** Only return entries with this idempotency key */
+  idempotencyKey?: string;
+  
+  /** Only return entries in this queue (`"default"` for entries without one) */
+  queue?: string;
+  
+  /**
+   * Only return entries due by this time (ms since epoch): those without
+   * `nextAttemptAt`, or with it at or before this time.
+   */
+  dueBy?: number;
+  
+  /** Maximum number of entries to return */
+  limit?: number;
+  
+  /**
+   * Only return entries ordered after this one.
+   * Pass the last entry of the previous page to paginate.
+   */
+  after?: Pick<LedgerEntry, 'id' | 'createdAt'>;
+}
+
+/**
+ * Options for listing ledger entries.
+ */
+export interface ListQuery extends LedgerQuery {
+  /**
+   * Sort order: `createdAt` ascending, or `priority` for replay order
+   * (effective priority including aging, then createdAt). With `priority`,
+   * `limit` applies after sorting; `after` still pages by createdAt.
+   * @default 'createdAt'
+   */
+  orderBy?: 'createdAt' | 'priority';
+}
+
+/**
+ * Kind of change made to the ledger.
+ */
+export type LedgerChangeType = 'put' | 'update' | 'remove' | 'clear';
+
+/**
+ * A change made to the ledger, in this tab or another.
+ */
+export interface LedgerChange {
+  /** What happened */
+  type: LedgerChangeType;
+  
+  /** ID of the affected entry (absent for `clear`) */
+  entryId?: string;
+  
+  /** True if the change was made in another tab */
+  remote: boolean;
+}
+
+/**
+ * Listener passed to `ledger.subscribe()`.
+ */
+export type LedgerChangeListener = (change: LedgerChange) => void;
+
 // =============================================================================
 // Request Options
 // =============================================================================
 
+/**
+ * Combines a queued request with a newer one for the same coalesce key.
+ * Receives requests as stored (bodies encoded) and must not mutate them.
+ */
+export type CoalesceMerge = (older: StoredRequest, newer: StoredRequest) => StoredRequest;
+
+/**
+ * How a new request replaces a queued one with the same coalesce key:
+ * `last-write-wins` keeps only the newer request, or a function merges them.
+ */
+export type CoalescePolicy = 'last-write-wins' | CoalesceMerge;
+
 /**
  * Options for making a request through the ledger.
  */
@@ -114,12 +299,60 @@ export interface RequestOptions {
   /** Optional HTTP headers */
   headers?: Record<string, string>;
   
-  /** Optional request body (will be JSON serialized) */
+  /**
+   * Optional request body.
+   * `FormData`, `Blob`, `ArrayBuffer`, typed arrays and `URLSearchParams`
+   * are sent as-is; anything else is JSON serialized.
+   */
   body?: unknown;
   
+  /**
+   * Override the detected body encoding, e.g. `'text'` to send a string
+   * as plain text instead of as a JSON string.
+   */
+  bodyKind?: BodyKind;
+  
   /** Optional idempotency key for safe replay */
   idempotencyKey?: string;
   
+  /**
+   * Queue to place the request in.
+   * @default "default"
+   */
+  queue?: string;
+  
+  /**
+   * IDs of entries that must succeed before this request is sent. If one
+   * fails, this entry becomes `blocked` instead of being sent.
+   */
+  dependsOn?: string[];
+  
+  /**
+   * Requests sharing this key (e.g. a resource ID) are sent strictly one
+   * after another, in the order they were made; requests with different
+   * keys may be sent in parallel. A failed request holds back the later
+   * ones for its key until it is retried or removed.
+   */
+  orderingKey?: string;
+  
+  /**
+   * Replay priority; higher is sent sooner, ties in creation order.
+   * Waiting raises the effective priority (see `priorityAgingMs`).
+   * @default 0
+   */
+  priority?: number;
+  
+  /**
+   * Opt in to coalescing: a new request with the same key replaces or
+   * merges into the queued one (per `coalesce`) instead of being queued
+   * too. Only entries still pending and never attempted are coalesced.
+   * Requires `coalesce`.
+   */
+  coalesceKey?: string;
+  
+  /** How to combine with a queued request with the same `coalesceKey` */
+  coalesce?: CoalescePolicy;
+  
   /** Optional user-provided metadata */
   metadata?: Record<string, unknown>;
 }
@@ -133,11 +366,17 @@ export interface RequestOptions {
  */
 export interface ProcessOptions {
   /** 
-   * Number of concurrent requests to process.
+   * Number of concurrent requests to process per queue.
+   * Queues with their own `concurrency` use that instead.
    * @default 1
    */
   concurrency?: number;
   
+  /**
+   * Only process this queue. All queues are processed by default.
+   */
+  queue?: string;
+  
   /**
    * Whether to stop processing on first error.
    * @default true
@@ -151,6 +390,40 @@ export interface ProcessOptions {
   onFailure?: (entry: LedgerEntry, error: Error) => void;
 }
 
+// =============================================================================
+// Queues
+// =============================================================================
+
+/**
+ * Settings for a named queue, overriding the ledger-wide defaults.
+ */
+export interface QueueConfig {
+  /**
+   * Retry strategy for entries in this queue.
+   * @default the ledger's `retry`
+   */
+  retry?: RetryStrategy;
+  
+  /**
+   * Number of entries from this queue sent concurrently.
+   * Use 1 for strict ordering.
+   * @default the `concurrency` passed to `process()`
+   */
+  concurrency?: number;
+  
+  /**
+   * Maximum number of entries kept in this queue.
+   * When exceeded, the queue's `evictionPolicy` applies.
+   */
+  maxEntries?: number;
+  
+  /**
+   * What to do when `maxEntries` is exceeded.
+   * @default 'evict-oldest'
+   */
+  evictionPolicy?: EvictionPolicy;
+}
+
 // =============================================================================
 // Ledger State
 // =============================================================================
@@ -170,6 +443,18 @@ export type LedgerState = 'idle' | 'pending' | 'processing' | 'paused' | 'error'
 // Retry Strategy
 // =============================================================================
 
+/**
+ * Randomization applied to retry delays, so clients recovering from the
+ * same outage do not retry in lockstep.
+ *
+ * - `none`: Use the computed delay as is
+ * - `full`: Random between 0 and the computed delay
+ * - `equal`: Half the computed delay plus a random share of the other half
+ * - `decorrelated`: Random between the base delay and three times the
+ *   previous delay, capped at the maximum delay
+ */
+export type JitterMode = 'none' | 'full' | 'equal' | 'decorrelated';
+
 /**
  * Fixed delay retry strategy.
  */
@@ -179,6 +464,17 @@ export interface FixedRetryStrategy {
   delayMs: number;
   /** Maximum number of retry attempts */
   maxAttempts: number;
+  /**
+   * Jitter applied to `delayMs`. With `decorrelated`, delays range from
+   * `delayMs` up to three times `delayMs`.
+   * @default 'none'
+   */
+  jitter?: JitterMode;
+  /**
+   * Random source returning values in [0, 1), for deterministic tests.
+   * @default Math.random
+   */
+  random?: () => number;
 }
 
 /**
@@ -192,6 +488,16 @@ export interface ExponentialRetryStrategy {
   maxMs: number;
   /** Maximum number of retry attempts */
   maxAttempts: number;
+  /**
+   * Jitter applied to the exponential delay.
+   * @default 'none'
+   */
+  jitter?: JitterMode;
+  /**
+   * Random source returning values in [0, 1), for deterministic tests.
+   * @default Math.random
+   */
+  random?: () => number;
 }
 
 /**
@@ -206,6 +512,55 @@ export interface ManualRetryStrategy {
  */
 export type RetryStrategy = FixedRetryStrategy | ExponentialRetryStrategy | ManualRetryStrategy;
 
+/**
+ * What to do with an entry after a replayed request got a response.
+ *
+ * - `success`: The request took effect; the entry is completed
+ * - `retry`: Try again after the retry strategy's backoff
+ * - `fail`: Mark the entry as failed without retrying
+ * - `{ retryAfterMs }`: Retry no earlier than this delay (capped at
+ *   `maxRetryAfterMs`), or the backoff if that is longer
+ */
+export type ResponseOutcome = 'success' | 'retry' | 'fail' | { retryAfterMs: number };
+
+/**
+ * Decides the outcome of a replayed request from its response.
+ * May read the response body; it receives a clone, so hooks can still
+ * read the original.
+ */
+export type ResponseClassifier = (
+  entry: LedgerEntry,
+  response: Response
+) => ResponseOutcome | Promise<ResponseOutcome>;
+
+/**
+ * Sends several queued entries as one HTTP request, e.g. to a `/batch`
+ * endpoint, and maps the per-operation results back to the entries.
+ */
+export interface BatchTransport {
+  /**
+   * Send the entries in one request.
+   * Return one response per entry, in the same order; each goes through
+   * `classifyResponse`, retries and hooks like a response to an individual
+   * request. A network error retries every entry in the batch; any other
+   * error, or results that do not match the entries, fail them with code
+   * `BATCH_ERROR`.
+   */
+  send: (entries: LedgerEntry[], signal?: AbortSignal) => Promise<Response[]>;
+  
+  /**
+   * Whether an entry may be batched. Others are sent individually.
+   * @default every entry
+   */
+  eligible?: (entry: LedgerEntry) => boolean;
+  
+  /**
+   * Most entries per batch request.
+   * @default 50
+   */
+  maxBatchSize?: number;
+}
+
 // =============================================================================
 // Lifecycle Hooks
 // =============================================================================
@@ -225,6 +580,12 @@ export interface LedgerHooks {
   
   /** Called when replay fails for an entry */
   onReplayFailure?: (entry: LedgerEntry, error: Error) => void;
+  
+  /** Called when an entry is evicted to stay within storage limits */
+  onEvict?: (entry: LedgerEntry) => void;
+  
+  /** Called when this tab gains or loses replay leadership */
+  onLeaderChange?: (isLeader: boolean) => void;
 }
 
 // =============================================================================
@@ -260,14 +621,120 @@ export interface OnlineCheckConfig {
   customCheck?: OnlineCheckFn;
 }
 
+// =============================================================================
+// Retention
+// =============================================================================
+
+/**
+ * How long completed entries are kept. Pruning runs after each
+ * `process()` run and on `ledger.pruneCompleted()`.
+ */
+export interface RetentionConfig {
+  /** Remove completed entries older than this (ms since completion) */
+  maxAgeMs?: number;
+  
+  /** Keep at most this many completed entries, most recent first */
+  maxCount?: number;
+}
+
+// =============================================================================
+// Multi-Tab Coordination
+// =============================================================================
+
+/**
+ * Configuration for coordinating replay across tabs.
+ * 
+ * Tabs sharing a name elect one leader, and only the leader replays the
+ * queue. Uses the Web Locks API, falling back to BroadcastChannel
+ * heartbeats where Web Locks is unavailable.
+ */
+export interface MultiTabConfig {
+  /**
+   * Name shared by the coordinating tabs.
+   * @default derived from the IndexedDB database and store names
+   */
+  name?: string;
+  
+  /**
+   * Heartbeat interval of the BroadcastChannel fallback in milliseconds.
+   * @default 1000
+   */
+  heartbeatMs?: number;
+  
+  /**
+   * Silence after which the BroadcastChannel fallback considers the
+   * leader gone and elects a new one, in milliseconds.
+   * @default 3000
+   */
+  leaderTimeoutMs?: number;
+}
+
 // =============================================================================
 // Storage Configuration
 // =============================================================================
 
+/**
+ * Chooses which entries to evict when a storage limit is exceeded.
+ * 
+ * Receives the stored entries that may be evicted (oldest first; never the
+ * entry being stored nor entries being processed), the number of entries
+ * over `maxEntries` and the number of bytes over `maxBytes` (0 when within
+ * that limit). Returns the IDs to evict. Returning too little to get under
+ * both limits rejects the new entry with LedgerFullError.
+ */
+export type EvictionSelector = (candidates: LedgerEntry[], excess: number, excessBytes: number) => string[];
+
+/**
+ * What a storage does when storing an entry would exceed `maxEntries` or `maxBytes`.
+ * 
+ * - `evict-oldest`: Evict the oldest entries, whatever their status
+ * - `evict-failed-first`: Evict failed entries first, then pending
+ * - `reject`: Evict nothing and throw LedgerFullError from `put`
+ * 
+ * The built-in policies evict retained `completed` entries before any
+ * others, oldest first; `reject` evicts only those.
+ * - A custom EvictionSelector
+ */
+export type EvictionPolicy = 'reject' | 'evict-failed-first' | 'evict-oldest' | EvictionSelector;
+
+/**
+ * Size limits shared by the built-in storage adapters.
+ */
+export interface StorageLimitsConfig {
+  /**
+   * Maximum number of entries to store.
+   * When exceeded, the eviction policy applies.
+   * @default 1000
+   */
+  maxEntries?: number;
+  
+  /**
+   * Maximum total size of stored entries in bytes, measured as the UTF-8
+   * length of each entry's JSON serialization.
+   * When exceeded, the eviction policy applies.
+   * @default unlimited
+   */
+  maxBytes?: number;
+  
+  /**
+   * What to do when `maxEntries` or `maxBytes` would be exceeded.
+   * @default "evict-oldest"
+   */
+  evictionPolicy?: EvictionPolicy;
+  
+  /**
+   * Called for every entry evicted to make room, after the eviction is
+   * committed. The ledger wires `RequestLedger.evicted()` here for the
+   * storage it creates; route it there yourself for a storage instance
+   * you create.
+   */
+  onEvict?: (entry: LedgerEntry) => void;
+}
+
 /**
  * Configuration for IndexedDB storage.
  */
-export interface IndexedDBStorageConfig {
+export interface IndexedDBStorageConfig extends StorageLimitsConfig {
   /**
    * Name of the IndexedDB database.
    * @default "request-ledger"
@@ -280,12 +747,109 @@ export interface IndexedDBStorageConfig {
    */
   storeName?: string;
   
+  
   /**
-   * Maximum number of entries to store.
-   * When exceeded, oldest entries are evicted.
+   * Check `navigator.storage.estimate()` before each put and throw
+   * QuotaExceededError when the entry would not fit in the origin's quota.
+   * Skipped where the Storage API is unavailable.
+   * @default true
+   */
+  quotaCheck?: boolean;
+  
+  /**
+   * IndexedDB database version to open.
+   * 
+   * Only needed when the ledger's store lives inside an application
+   * database that the application versions itself. Bump it whenever the
+   * application schema changes or request-ledger ships a schema upgrade.
+   * @default the ledger's schema version
+   */
+  version?: number;
+  
+  /**
+   * Upgrade callback for application-owned stores in a shared database.
+   * Runs inside the versionchange transaction, before the ledger's own
+   * migrations.
+   */
+  onUpgrade?: (
+    db: IDBDatabase,
+    transaction: IDBTransaction,
+    oldVersion: number,
+    newVersion: number
+  ) => void;
+}
+
+/**
+ * Configuration for in-memory storage.
+ */
+export type MemoryStorageConfig = StorageLimitsConfig;
+
+/**
+ * Configuration for the Node.js file-backed journal storage.
+ */
+export interface FileJournalStorageConfig extends StorageLimitsConfig {
+  /**
+   * Path to the journal file. Created (with parent directories) if missing.
+   */
+  path: string;
+  
+  
+  /**
+   * Number of superseded journal records tolerated before the journal
+   * is compacted down to one record per live entry.
    * @default 1000
    */
-  maxEntries?: number;
+  compactThreshold?: number;
+}
+
+/**
+ * Configuration for the Node.js SQLite storage (built on `node:sqlite`).
+ */
+export interface SqliteStorageConfig extends StorageLimitsConfig {
+  /**
+   * Path to the database file, or `:memory:` for a transient database.
+   */
+  path: string;
+  
+  /**
+   * Name of the table holding entries.
+   * Lets the ledger share a database with the application.
+   * @default "ledger_entries"
+   */
+  tableName?: string;
+  
+}
+
+/**
+ * Supplies AES-GCM keys for encrypted storage, by key ID.
+ * Keeping retired keys available lets entries written under them be
+ * read until they are re-encrypted.
+ */
+export interface EncryptionKeyProvider {
+  /**
+   * ID of the key new entries are encrypted with.
+   */
+  currentKeyId(): string | Promise<string>;
+  
+  /**
+   * Resolve a key by ID. Return undefined if the key is unavailable.
+   */
+  getKey(keyId: string): CryptoKey | undefined | Promise<CryptoKey | undefined>;
+}
+
+/**
+ * Configuration for the encrypting storage wrapper.
+ */
+export interface EncryptedStorageConfig {
+  /**
+   * Storage that persists the encrypted entries.
+   */
+  storage: LedgerStorage;
+  
+  /**
+   * AES-GCM key, or a provider for rotating keys.
+   */
+  key: CryptoKey | EncryptionKeyProvider;
 }
 
 // =============================================================================
@@ -313,6 +877,12 @@ export interface LedgerConfig {
    */
   retry?: RetryStrategy;
   
+  /**
+   * Per-queue settings, keyed by queue name.
+   * Entries go to a queue via `RequestOptions.queue`.
+   */
+  queues?: Record<string, QueueConfig>;
+  
   /**
    * Online detection configuration.
    */
@@ -342,6 +912,125 @@ export interface LedgerConfig {
    * Only used if autoProcess is true.
    */
   autoProcessOptions?: ProcessOptions;
+  
+  /**
+   * Keep delivered entries as `completed`, with `completedAt` and a
+   * response summary, instead of removing them on success.
+   * Omit to remove entries as soon as they succeed.
+   */
+  retention?: RetentionConfig;
+  
+  /**
+   * Longest delay honored from a `Retry-After` header on 429 and 503
+   * responses during replay. Longer values are capped to this.
+   * @default 300000 (5 minutes)
+   */
+  maxRetryAfterMs?: number;
+  
+  /**
+   * Decide whether a replayed request succeeded, should be retried or
+   * failed, e.g. to accept a 409 from an already-applied replay or to
+   * reject a 200 with an error envelope.
+   * @default defaultClassifyResponse: 2xx/3xx succeed, 5xx and 429 retry
+   * (honoring Retry-After on 429 and 503), other 4xx fail
+   */
+  classifyResponse?: ResponseClassifier;
+  
+  /**
+   * Waiting time that raises an entry's effective priority by one, so
+   * low-priority entries are eventually sent. Use Infinity to disable aging.
+   * @default 60000 (1 minute)
+   */
+  priorityAgingMs?: number;
+  
+  /**
+   * Replay eligible entries in batches through one HTTP request each,
+   * instead of one request per entry. Each batch counts as one unit of
+   * `concurrency`.
+   */
+  batchTransport?: BatchTransport;
+  
+  /**
+   * Coordinate replay across tabs so only one tab processes the queue.
+   * Followers' `process()` calls are no-ops and their `getState()`
+   * reports the leader's state. With a custom `storage`, tabs only share
+   * it if they say so, so `multiTab.name` is required.
+   * @default true in browsers with the default storage, false otherwise
+   */
+  multiTab?: boolean | MultiTabConfig;
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+/**
+ * The JSON form of a ledger entry, used by text-based adapters and
+ * snapshots. Body and metadata are stored as JSON strings, with binary
+ * body data as base64.
+ */
+export type SerializedEntry = Omit<LedgerEntry, 'request' | 'metadata'> & {
+  request: Omit<StoredRequest, 'body'> & { body: string | undefined };
+  metadata: string | undefined;
+};
+
+/**
+ * A versioned, JSON-safe copy of a ledger, produced by `ledger.export()`
+ * and loaded with `ledger.import()`.
+ */
+export interface LedgerSnapshot {
+  /** Identifies the document as a ledger snapshot */
+  format: 'request-ledger-snapshot';
+  
+  /** Snapshot schema version */
+  version: number;
+  
+  /** When the snapshot was taken (ms since epoch) */
+  exportedAt: number;
+  
+  /** The ledger the snapshot was taken from */
+  ledger: {
+    /** Coordination name of the ledger (see `MultiTabConfig.name`) */
+    name: string;
+    /** Processing state at export time */
+    state: LedgerState;
+    /** Number of entries in the snapshot */
+    entryCount: number;
+  };
+  
+  /** Entries in createdAt order */
+  entries: SerializedEntry[];
+}
+
+/**
+ * What `ledger.import()` does with an entry whose ID already exists.
+ * 
+ * - `fail`: Throw `DuplicateEntryError` before importing anything
+ * - `skip`: Keep the existing entry
+ * - `replace`: Overwrite the existing entry with the snapshot's
+ */
+export type ImportConflictPolicy = 'skip' | 'replace' | 'fail';
+
+/**
+ * Options for `ledger.import()`.
+ */
+export interface ImportOptions {
+  /**
+   * What to do when an entry ID already exists.
+   * @default 'fail'
+   */
+  onConflict?: ImportConflictPolicy;
+}
+
+/**
+ * Outcome of `ledger.import()`.
+ */
+export interface ImportResult {
+  /** Entries written, including replacements */
+  imported: number;
+  
+  /** Entries skipped because their ID already existed */
+  skipped: number;
 }
 
 // =============================================================================
@@ -368,16 +1057,26 @@ export interface LedgerStorage {
    */
   getAll(): Promise<LedgerEntry[]>;
   
+  /**
+   * Get entries matching a filter, ordered by createdAt ascending.
+   * 
+   * Optional: adapters with indexes should implement it so callers avoid
+   * loading every entry. When absent, callers filter `getAll()` in memory.
+   */
+  query?(query: LedgerQuery): Promise<LedgerEntry[]>;
+  
   /**
    * Get a single entry by ID.
    */
   get(id: string): Promise<LedgerEntry | undefined>;
   
   /**
-   * Update an existing entry.
-   * Should throw if entry does not exist.
+   * Update an existing entry, incrementing its revision.
+   * Should throw EntryNotFoundError if the entry does not exist, and
+   * ConcurrentModificationError if `options.expectedRevision` does not
+   * match, checked atomically with the write.
    */
-  update(id: string, patch: LedgerEntryPatch): Promise<void>;
+  update(id: string, patch: LedgerEntryPatch, options?: UpdateOptions): Promise<void>;
   
   /**
    * Remove an entry by ID.
@@ -419,6 +1118,39 @@ export class PersistenceError extends LedgerError {
   }
 }
 
+/**
+ * Error thrown when the underlying storage is out of space
+ * (browser storage quota, full disk).
+ */
+export class QuotaExceededError extends PersistenceError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Error thrown when an entry cannot be stored because the ledger is full
+ * and the eviction policy does not make room.
+ */
+export class LedgerFullError extends PersistenceError {
+  constructor(public readonly entryId: string, message = `Ledger is full, cannot store entry: ${entryId}`) {
+    super(message);
+    this.name = 'LedgerFullError';
+  }
+}
+
+/**
+ * Error thrown when an entry cannot be encrypted or decrypted,
+ * e.g. because its key is unavailable or the ciphertext was tampered with.
+ */
+export class EncryptionError extends LedgerError {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
 /**
  * Error thrown when a network request fails.
  */
@@ -429,6 +1161,17 @@ export class NetworkError extends LedgerError {
   }
 }
 
+/**
+ * Error thrown when a batch transport fails other than by a network error,
+ * or returns results that do not match the entries it was given.
+ */
+export class BatchTransportError extends LedgerError {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'BatchTransportError';
+  }
+}
+
 /**
  * Error thrown when an entry is not found.
  */
@@ -439,6 +1182,21 @@ export class EntryNotFoundError extends LedgerError {
   }
 }
 
+/**
+ * Error thrown when a compare-and-set update finds the entry at a
+ * different revision than expected, i.e. someone else changed it first.
+ */
+export class ConcurrentModificationError extends LedgerError {
+  constructor(
+    public readonly entryId: string,
+    public readonly expectedRevision: number,
+    public readonly actualRevision: number
+  ) {
+    super(`Entry ${entryId} was modified concurrently: expected revision ${expectedRevision}, found ${actualRevision}`);
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
 /**
  * Error thrown when a duplicate entry is detected.
  */
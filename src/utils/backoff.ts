@@ -4,25 +4,33 @@
  * Provides delay calculation for retry strategies.
  */
 
-import type { RetryStrategy } from '../types.js';
+import type { JitterMode, RetryStrategy } from '../types.js';
 
 /**
  * Calculate the delay before the next retry attempt.
  * 
  * @param strategy The retry strategy configuration
  * @param attemptCount The number of attempts made so far (1-indexed)
+ * @param previousDelayMs The delay before the previous attempt, used by
+ *   `decorrelated` jitter. Defaults to the strategy's base delay.
  * @returns Delay in milliseconds, or null if max attempts reached
  */
 export function calculateBackoffDelay(
   strategy: RetryStrategy,
-  attemptCount: number
+  attemptCount: number,
+  previousDelayMs?: number
 ): number | null {
   switch (strategy.type) {
     case 'fixed': {
       if (attemptCount >= strategy.maxAttempts) {
         return null;
       }
-      return strategy.delayMs;
+      return applyJitter(strategy.jitter, strategy.random, {
+        delay: strategy.delayMs,
+        base: strategy.delayMs,
+        cap: strategy.delayMs * 3,
+        previous: previousDelayMs ?? strategy.delayMs,
+      });
     }
     
     case 'exponential': {
@@ -31,7 +39,12 @@ export function calculateBackoffDelay(
       }
       // Exponential backoff: baseMs * 2^(attempt-1)
       const delay = strategy.baseMs * Math.pow(2, attemptCount - 1);
-      return Math.min(delay, strategy.maxMs);
+      return applyJitter(strategy.jitter, strategy.random, {
+        delay: Math.min(delay, strategy.maxMs),
+        base: strategy.baseMs,
+        cap: strategy.maxMs,
+        previous: previousDelayMs ?? strategy.baseMs,
+      });
     }
     
     case 'manual': {
@@ -41,6 +54,28 @@ export function calculateBackoffDelay(
   }
 }
 
+/**
+ * Randomize a computed delay according to the jitter mode.
+ */
+function applyJitter(
+  mode: JitterMode = 'none',
+  random: () => number = Math.random,
+  { delay, base, cap, previous }: { delay: number; base: number; cap: number; previous: number }
+): number {
+  switch (mode) {
+    case 'none':
+      return delay;
+    case 'full':
+      return Math.round(random() * delay);
+    case 'equal':
+      return Math.round(delay / 2 + random() * (delay / 2));
+    case 'decorrelated': {
+      const upper = Math.max(base, previous * 3);
+      return Math.min(cap, Math.round(base + random() * (upper - base)));
+    }
+  }
+}
+
 /**
  * Check if more retry attempts are allowed.
  * 
@@ -0,0 +1,28 @@
+/**
+ * Base64 Utilities
+ *
+ * Binary-to-text encoding for persisting bytes in JSON.
+ */
+
+/**
+ * Encode bytes as base64.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes.
+ */
+export function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
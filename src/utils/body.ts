@@ -0,0 +1,160 @@
+/**
+ * Request Body Utilities
+ *
+ * Converts request bodies between their live form (what callers pass and
+ * what `fetch` sends) and their stored form (what the ledger persists).
+ * Binary data is stored as `ArrayBuffer`, which IndexedDB persists natively.
+ */
+
+import type { BodyEncoding, BodyKind, StoredFormField, StoredRequest } from '../types.js';
+
+/**
+ * A body in the form it is persisted in a ledger entry.
+ */
+export interface EncodedBody {
+  body: unknown;
+  encoding?: BodyEncoding;
+}
+
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+/**
+ * Copy binary data into a standalone ArrayBuffer.
+ */
+function toArrayBuffer(value: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+  if (value instanceof ArrayBuffer) {
+    return value.slice(0);
+  }
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice().buffer;
+}
+
+/**
+ * Detect the encoding of a live request body.
+ */
+export function detectBodyKind(body: unknown): BodyKind {
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return 'form';
+  }
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return 'urlencoded';
+  }
+  if (isBlob(body) || body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return 'blob';
+  }
+  return 'json';
+}
+
+/**
+ * Convert a live body to the form `fetch` accepts, setting the JSON
+ * content type when needed. Other content types are left to `fetch`,
+ * which derives them from the body (including multipart boundaries).
+ */
+export function toFetchBody(body: unknown, kind: BodyKind, headers: Headers): BodyInit | null {
+  if (body === undefined || body === null) {
+    return null;
+  }
+
+  switch (kind) {
+    case 'json':
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+      return JSON.stringify(body);
+    case 'text':
+      return String(body);
+    case 'urlencoded':
+      return body instanceof URLSearchParams ? body : new URLSearchParams(String(body));
+    case 'form':
+    case 'blob':
+      return body as BodyInit;
+  }
+}
+
+/**
+ * The value a JSON round-trip of `value` produces, so every adapter
+ * stores what `JSON.stringify` would send (`toJSON` applied, functions
+ * dropped, dates as strings).
+ */
+export function toJsonValue(value: unknown): unknown {
+  const json = JSON.stringify(value);
+  return json === undefined ? undefined : JSON.parse(json);
+}
+
+/**
+ * Convert a live body to its stored form.
+ * Async because Blob and File contents must be read.
+ */
+export async function encodeBody(body: unknown, kind: BodyKind = detectBodyKind(body)): Promise<EncodedBody> {
+  if (body === undefined || body === null) {
+    return { body };
+  }
+  if (kind === 'json') {
+    return { body: toJsonValue(body) };
+  }
+
+  switch (kind) {
+    case 'text':
+      return { body: String(body), encoding: { kind } };
+
+    case 'urlencoded':
+      return { body: String(body), encoding: { kind } };
+
+    case 'blob': {
+      if (isBlob(body)) {
+        const encoding: BodyEncoding = { kind };
+        if (body.type) encoding.contentType = body.type;
+        return { body: await body.arrayBuffer(), encoding };
+      }
+      return { body: toArrayBuffer(body as ArrayBuffer | ArrayBufferView), encoding: { kind } };
+    }
+
+    case 'form': {
+      const pending: Array<Promise<StoredFormField>> = [];
+      (body as FormData).forEach((value, name) => {
+        pending.push(
+          typeof value === 'string'
+            ? Promise.resolve({ name, value })
+            : value.arrayBuffer().then((data) => ({ name, value: data, type: value.type, filename: value.name }))
+        );
+      });
+      return { body: await Promise.all(pending), encoding: { kind } };
+    }
+  }
+}
+
+/**
+ * Rebuild the live body of a stored request.
+ */
+export function decodeBody(request: StoredRequest): { body: unknown; kind: BodyKind } {
+  const kind = request.encoding?.kind ?? 'json';
+  const body = request.body;
+
+  if (body === undefined || body === null) {
+    return { body, kind };
+  }
+
+  switch (kind) {
+    case 'blob':
+      return {
+        body: new Blob([body as ArrayBuffer], { type: request.encoding?.contentType ?? '' }),
+        kind,
+      };
+
+    case 'form': {
+      const form = new FormData();
+      for (const field of body as StoredFormField[]) {
+        if ('filename' in field) {
+          form.append(field.name, new Blob([field.value], { type: field.type }), field.filename);
+        } else {
+          form.append(field.name, field.value);
+        }
+      }
+      return { body: form, kind };
+    }
+
+    default:
+      return { body, kind };
+  }
+}
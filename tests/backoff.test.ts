@@ -4,7 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { calculateBackoffDelay, canRetry, DEFAULT_RETRY_STRATEGY } from '../src/utils/backoff.js';
-import type { RetryStrategy } from '../src/types.js';
+import type { JitterMode, RetryStrategy } from '../src/types.js';
 
 describe('calculateBackoffDelay', () => {
   describe('fixed strategy', () => {
@@ -62,6 +62,54 @@ describe('calculateBackoffDelay', () => {
   });
 });
 
+describe('jitter', () => {
+  const exponential = (jitter: JitterMode, value: number): RetryStrategy => ({
+    type: 'exponential',
+    baseMs: 1000,
+    maxMs: 10000,
+    maxAttempts: 10,
+    jitter,
+    random: () => value,
+  });
+
+  it('should leave delays unchanged with none', () => {
+    expect(calculateBackoffDelay(exponential('none', 0.5), 3)).toBe(4000);
+  });
+
+  it('should spread full jitter between 0 and the delay', () => {
+    expect(calculateBackoffDelay(exponential('full', 0), 3)).toBe(0);
+    expect(calculateBackoffDelay(exponential('full', 0.25), 3)).toBe(1000);
+    expect(calculateBackoffDelay(exponential('full', 0.25), 6)).toBe(2500); // capped delay is 10000
+  });
+
+  it('should keep at least half the delay with equal jitter', () => {
+    expect(calculateBackoffDelay(exponential('equal', 0), 3)).toBe(2000);
+    expect(calculateBackoffDelay(exponential('equal', 0.5), 3)).toBe(3000);
+  });
+
+  it('should grow decorrelated jitter from the previous delay, capped at maxMs', () => {
+    expect(calculateBackoffDelay(exponential('decorrelated', 0), 1)).toBe(1000);
+    expect(calculateBackoffDelay(exponential('decorrelated', 0.5), 1)).toBe(2000); // previous defaults to baseMs
+    expect(calculateBackoffDelay(exponential('decorrelated', 0.5), 2, 2000)).toBe(3500);
+    expect(calculateBackoffDelay(exponential('decorrelated', 0.99), 3, 8000)).toBe(10000);
+  });
+
+  it('should apply to fixed delays', () => {
+    const fixed = (jitter: JitterMode): RetryStrategy => ({
+      type: 'fixed',
+      delayMs: 1000,
+      maxAttempts: 3,
+      jitter,
+      random: () => 0.5,
+    });
+
+    expect(calculateBackoffDelay(fixed('full'), 1)).toBe(500);
+    expect(calculateBackoffDelay(fixed('equal'), 1)).toBe(750);
+    expect(calculateBackoffDelay(fixed('decorrelated'), 1, 3000)).toBe(3000); // capped at 3 × delayMs
+    expect(calculateBackoffDelay(fixed('full'), 3)).toBe(null);
+  });
+});
+
 describe('canRetry', () => {
   it('should return true for fixed strategy under max attempts', () => {
     const strategy: RetryStrategy = { type: 'fixed', delayMs: 1000, maxAttempts: 3 };
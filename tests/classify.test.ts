@@ -0,0 +1,44 @@
+/**
+ * Response Classification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { defaultClassifyResponse } from '../src/replay/classify.js';
+import type { LedgerEntry } from '../src/types.js';
+
+const entry: LedgerEntry = {
+  id: 'test-1',
+  request: { url: '/test', method: 'POST', headers: {}, body: null },
+  status: 'processing',
+  attemptCount: 1,
+  createdAt: 1000,
+};
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return { status, ok: status >= 200 && status < 300, headers: new Headers(headers) } as Response;
+}
+
+describe('defaultClassifyResponse', () => {
+  it('should succeed on 2xx and 3xx', () => {
+    expect(defaultClassifyResponse(entry, response(200))).toBe('success');
+    expect(defaultClassifyResponse(entry, response(204))).toBe('success');
+    expect(defaultClassifyResponse(entry, response(304))).toBe('success');
+  });
+
+  it('should fail on 4xx other than 429', () => {
+    expect(defaultClassifyResponse(entry, response(400))).toBe('fail');
+    expect(defaultClassifyResponse(entry, response(409))).toBe('fail');
+  });
+
+  it('should retry on 5xx and 429', () => {
+    expect(defaultClassifyResponse(entry, response(500))).toBe('retry');
+    expect(defaultClassifyResponse(entry, response(503))).toBe('retry');
+    expect(defaultClassifyResponse(entry, response(429))).toBe('retry');
+  });
+
+  it('should honor Retry-After on 429 and 503 only', () => {
+    expect(defaultClassifyResponse(entry, response(429, { 'Retry-After': '30' }))).toEqual({ retryAfterMs: 30_000 });
+    expect(defaultClassifyResponse(entry, response(503, { 'Retry-After': '5' }))).toEqual({ retryAfterMs: 5000 });
+    expect(defaultClassifyResponse(entry, response(500, { 'Retry-After': '5' }))).toBe('retry');
+  });
+});
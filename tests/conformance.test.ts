@@ -0,0 +1,158 @@
+/**
+ * Storage Conformance Suite Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runStorageConformanceTests, type ConformanceTestApi } from '../src/testing.js';
+import { MemoryStorage } from '../src/storage/memory.js';
+import type { LedgerEntry, LedgerEntryPatch, LedgerStorage, UpdateOptions } from '../src/types.js';
+import { ConcurrentModificationError, DuplicateEntryError, EntryNotFoundError } from '../src/types.js';
+
+/**
+ * A minimal custom adapter, as an application might write one:
+ * JSON in a Map, no query support.
+ */
+class JsonMapStorage implements LedgerStorage {
+  protected readonly entries = new Map<string, string>();
+
+  async put(entry: LedgerEntry): Promise<void> {
+    if (this.entries.has(entry.id)) {
+      throw new DuplicateEntryError(entry.id);
+    }
+    this.entries.set(entry.id, JSON.stringify(entry));
+  }
+
+  async getAll(): Promise<LedgerEntry[]> {
+    return Array.from(this.entries.values(), (json) => JSON.parse(json) as LedgerEntry)
+      .sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1));
+  }
+
+  async get(id: string): Promise<LedgerEntry | undefined> {
+    const json = this.entries.get(id);
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  async update(id: string, patch: LedgerEntryPatch, options: UpdateOptions = {}): Promise<void> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new EntryNotFoundError(id);
+    }
+    const revision = existing.revision ?? 0;
+    if (options.expectedRevision !== undefined && options.expectedRevision !== revision) {
+      throw new ConcurrentModificationError(id, options.expectedRevision, revision);
+    }
+    this.entries.set(id, JSON.stringify({ ...existing, ...patch, revision: revision + 1 }));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+describe('runStorageConformanceTests', () => {
+  interface Collected {
+    name: string;
+    fn: () => void | Promise<void>;
+    before: Array<() => void | Promise<void>>;
+    after: Array<() => void | Promise<void>>;
+  }
+
+  /**
+   * Collect the suite's tests without a framework, so they can be run
+   * against adapters expected to fail.
+   */
+  function collect(factory: () => LedgerStorage): Collected[] {
+    const tests: Collected[] = [];
+    const prefix: string[] = [];
+    const before: Array<Array<() => void | Promise<void>>> = [[]];
+    const after: Array<Array<() => void | Promise<void>>> = [[]];
+
+    const api: ConformanceTestApi = {
+      describe: (name, fn) => {
+        prefix.push(name);
+        before.push([]);
+        after.push([]);
+        fn();
+        prefix.pop();
+        before.pop();
+        after.pop();
+      },
+      it: (name, fn) => {
+        tests.push({ name: [...prefix, name].join(' > '), fn, before: before.flat(), after: after.flat() });
+      },
+      beforeEach: (fn) => before[before.length - 1]!.push(fn),
+      afterEach: (fn) => after[after.length - 1]!.push(fn),
+    };
+
+    runStorageConformanceTests(factory, { api });
+    return tests;
+  }
+
+  async function failures(factory: () => LedgerStorage): Promise<string[]> {
+    const failed: string[] = [];
+    for (const test of collect(factory)) {
+      try {
+        for (const hook of test.before) await hook();
+        await test.fn();
+      } catch {
+        failed.push(test.name);
+      } finally {
+        for (const hook of test.after) await hook();
+      }
+    }
+    return failed;
+  }
+
+  it('should pass a minimal JSON adapter only where it meets the contract', async () => {
+    const failed = await failures(() => new JsonMapStorage());
+
+    // JSON.stringify turns ArrayBuffers into {}; undefined patch values drop out, so clearing works
+    expect(failed).toEqual([
+      'LedgerStorage conformance > put > should round-trip binary and form bodies',
+    ]);
+  });
+
+  it('should catch adapters that break the contract', async () => {
+    class LenientStorage extends JsonMapStorage {
+      override async put(entry: LedgerEntry): Promise<void> {
+        this.entries.set(entry.id, JSON.stringify(entry));
+      }
+
+      override async update(id: string, patch: LedgerEntryPatch): Promise<void> {
+        const existing = await this.get(id);
+        this.entries.set(id, JSON.stringify({ ...existing, ...patch, id }));
+      }
+
+      override async getAll(): Promise<LedgerEntry[]> {
+        return Array.from(this.entries.values(), (json) => JSON.parse(json) as LedgerEntry);
+      }
+    }
+
+    const failed = await failures(() => new LenientStorage());
+
+    expect(failed).toEqual(expect.arrayContaining([
+      'LedgerStorage conformance > put > should throw DuplicateEntryError for duplicate ID',
+      'LedgerStorage conformance > getAll > should return entries ordered by createdAt, then ID',
+      'LedgerStorage conformance > update > should throw EntryNotFoundError for non-existent entry',
+    ]));
+  });
+
+  it('should require a test API when no globals exist', () => {
+    const scope = globalThis as Record<string, unknown>;
+    const saved = scope['describe'];
+    delete scope['describe'];
+    try {
+      expect(() => runStorageConformanceTests(() => new MemoryStorage())).toThrow('pass them as options.api');
+    } finally {
+      scope['describe'] = saved;
+    }
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Encrypted Storage Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EncryptedStorage } from '../src/storage/encrypted.js';
+import { MemoryStorage } from '../src/storage/memory.js';
+import type { EncryptionKeyProvider, LedgerEntry } from '../src/types.js';
+import { EncryptionError } from '../src/types.js';
+
+function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    request: {
+      url: 'https://api.example.com/users',
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret-token' },
+      body: { email: 'jane@example.com' },
+    },
+    status: 'pending',
+    attemptCount: 0,
+    createdAt: Date.now(),
+    metadata: { userId: 'user-42' },
+    ...overrides,
+  };
+}
+
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Key provider whose current key can be switched and retired.
+ */
+function createKeyring(keys: Record<string, CryptoKey>, current: string): EncryptionKeyProvider & {
+  keys: Record<string, CryptoKey>;
+  current: string;
+} {
+  return {
+    keys,
+    current,
+    currentKeyId() {
+      return this.current;
+    },
+    getKey(keyId) {
+      return this.keys[keyId];
+    },
+  };
+}
+
+describe('EncryptedStorage', () => {
+  let inner: MemoryStorage;
+  let key: CryptoKey;
+
+  beforeEach(async () => {
+    inner = new MemoryStorage();
+    key = await generateKey();
+  });
+
+  it('should round-trip request and metadata', async () => {
+    const storage = new EncryptedStorage({ storage: inner, key });
+    const entry = createEntry('test-1');
+
+    await storage.put(entry);
+
+    expect(await storage.get('test-1')).toEqual(entry);
+    expect(await storage.getAll()).toEqual([entry]);
+    expect(await storage.query({ status: 'pending' })).toEqual([entry]);
+  });
+
+  it('should round-trip binary bodies', async () => {
+    const storage = new EncryptedStorage({ storage: inner, key });
+    await storage.put(createEntry('test-1', {
+      request: {
+        url: 'https://api.example.com/upload',
+        method: 'PUT',
+        headers: {},
+        body: new Uint8Array([7, 8, 9]).buffer,
+        encoding: { kind: 'blob', contentType: 'image/png' },
+      },
+    }));
+
+    const retrieved = await storage.get('test-1');
+    expect(retrieved?.request.encoding).toEqual({ kind: 'blob', contentType: 'image/png' });
+    expect(Array.from(new Uint8Array(retrieved?.request.body as ArrayBuffer))).toEqual([7, 8, 9]);
+  });
+
+  it('should not persist request or metadata in plaintext', async () => {
+    const storage = new EncryptedStorage({ storage: inner, key });
+    await storage.put(createEntry('test-1', { idempotencyKey: 'key-1' }));
+
+    const stored = await inner.get('test-1');
+    const raw = JSON.stringify(stored);
+    expect(raw).not.toContain('secret-token');
+    expect(raw).not.toContain('jane@example.com');
+    expect(raw).not.toContain('api.example.com');
+    expect(raw).not.toContain('user-42');
+    expect(stored?.status).toBe('pending');
+    expect(stored?.idempotencyKey).toBe('key-1');
+  });
+
+  it('should pass status updates through and re-encrypt request updates', async () => {
+    const storage = new EncryptedStorage({ storage: inner, key });
+    await storage.put(createEntry('test-1'));
+
+    await storage.update('test-1', { status: 'failed', error: { message: 'boom' } });
+    await storage.update('test-1', { metadata: { userId: 'user-43' } });
+
+    const retrieved = await storage.get('test-1');
+    expect(retrieved?.status).toBe('failed');
+    expect(retrieved?.error).toEqual({ message: 'boom' });
+    expect(retrieved?.metadata).toEqual({ userId: 'user-43' });
+    expect(retrieved?.request.headers['Authorization']).toBe('Bearer secret-token');
+    expect(JSON.stringify(await inner.get('test-1'))).not.toContain('user-43');
+  });
+
+  it('should throw EncryptionError when the key is missing', async () => {
+    const keyring = createKeyring({ k1: key }, 'k1');
+    const storage = new EncryptedStorage({ storage: inner, key: keyring });
+    await storage.put(createEntry('test-1'));
+
+    delete keyring.keys['k1'];
+
+    await expect(storage.get('test-1')).rejects.toThrow(EncryptionError);
+    await expect(storage.getAll()).rejects.toThrow('Encryption key not available: k1');
+    await expect(storage.put(createEntry('test-2'))).rejects.toThrow(EncryptionError);
+  });
+
+  it('should throw EncryptionError when decrypting with the wrong key', async () => {
+    await new EncryptedStorage({ storage: inner, key }).put(createEntry('test-1'));
+    const storage = new EncryptedStorage({ storage: inner, key: await generateKey() });
+
+    await expect(storage.get('test-1')).rejects.toThrow(EncryptionError);
+  });
+
+  it('should reject ciphertext moved to another entry', async () => {
+    const storage = new EncryptedStorage({ storage: inner, key });
+    await storage.put(createEntry('test-1'));
+    const stored = await inner.get('test-1');
+
+    await inner.put({ ...stored!, id: 'test-2' });
+
+    await expect(storage.get('test-2')).rejects.toThrow('Failed to decrypt entry: test-2');
+  });
+
+  it('should re-encrypt existing entries on key rotation', async () => {
+    const keyring = createKeyring({ k1: key }, 'k1');
+    const storage = new EncryptedStorage({ storage: inner, key: keyring });
+    await storage.put(createEntry('test-1', { createdAt: 1000 }));
+    await storage.put(createEntry('test-2', { createdAt: 2000 }));
+
+    keyring.keys['k2'] = await generateKey();
+    keyring.current = 'k2';
+    await storage.put(createEntry('test-3', { createdAt: 3000 }));
+
+    expect(await storage.rotateKey()).toBe(2);
+
+    delete keyring.keys['k1'];
+    const entries = await storage.getAll();
+    expect(entries.map(e => e.id)).toEqual(['test-1', 'test-2', 'test-3']);
+    expect(entries[0]?.request.body).toEqual({ email: 'jane@example.com' });
+    expect(await storage.rotateKey()).toBe(0);
+  });
+
+  it('should skip processing entries and keep changes made during rotation', async () => {
+    const keyring = createKeyring({ k1: key }, 'k1');
+    const storage = new EncryptedStorage({ storage: inner, key: keyring });
+    await storage.put(createEntry('test-1', { createdAt: 1000 }));
+    await storage.put(createEntry('test-2', { createdAt: 2000, status: 'processing' }));
+
+    keyring.keys['k2'] = await generateKey();
+    keyring.current = 'k2';
+
+    // Another tab fails the entry between rotation reading and writing it
+    const update = inner.update.bind(inner);
+    let raced = false;
+    vi.spyOn(inner, 'update').mockImplementation(async (id, patch, options) => {
+      if (!raced) {
+        raced = true;
+        await update(id, { status: 'failed' });
+      }
+      return update(id, patch, options);
+    });
+
+    expect(await storage.rotateKey()).toBe(1);
+
+    const rotated = await storage.get('test-1');
+    expect(rotated?.status).toBe('failed');
+    expect(rotated?.metadata).toEqual({ userId: 'user-42' });
+    expect((await inner.get('test-2'))?.status).toBe('processing');
+    expect(await storage.rotateKey()).toBe(0);
+  });
+
+    it('should read and then encrypt entries stored before encryption', async () => {
+    await inner.put(createEntry('legacy'));
+    const storage = new EncryptedStorage({ storage: inner, key });
+
+    expect((await storage.get('legacy'))?.metadata).toEqual({ userId: 'user-42' });
+
+    expect(await storage.rotateKey()).toBe(1);
+    expect(JSON.stringify(await inner.get('legacy'))).not.toContain('secret-token');
+    expect((await storage.get('legacy'))?.metadata).toEqual({ userId: 'user-42' });
+  });
+});
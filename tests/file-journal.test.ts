@@ -0,0 +1,208 @@
+/**
+ * File Journal Storage Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, open, rm, readFile, appendFile, writeFile, stat, type FileHandle } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileJournalStorage } from '../src/storage/file-journal.js';
+import type { LedgerEntry } from '../src/types.js';
+import { PersistenceError, QuotaExceededError } from '../src/types.js';
+
+function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    request: {
+      url: 'https://api.example.com/test',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { test: 'data' },
+    },
+    status: 'pending',
+    attemptCount: 0,
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('FileJournalStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'request-ledger-'));
+    path = join(dir, 'ledger.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across restarts', async () => {
+    const first = new FileJournalStorage({ path });
+    await first.put(createEntry('test-1', { createdAt: 1000, metadata: { userId: 1 } }));
+    await first.put(createEntry('test-2', { createdAt: 2000 }));
+    await first.update('test-1', { status: 'failed', error: { message: 'boom' } });
+    await first.remove('test-2');
+    await first.close();
+
+    const second = new FileJournalStorage({ path });
+    const all = await second.getAll();
+    expect(all).toHaveLength(1);
+    expect(all[0]?.status).toBe('failed');
+    expect(all[0]?.error).toEqual({ message: 'boom' });
+    expect(all[0]?.metadata).toEqual({ userId: 1 });
+    await second.close();
+  });
+
+  it('should persist a cleared error across restarts', async () => {
+    const first = new FileJournalStorage({ path });
+    await first.put(createEntry('test-1', { status: 'failed', error: { message: 'boom' } }));
+    await first.update('test-1', { status: 'pending', error: undefined });
+    await first.close();
+
+    const second = new FileJournalStorage({ path });
+    expect((await second.get('test-1'))?.error).toBeUndefined();
+    await second.close();
+  });
+
+  it('should recover from a torn last line', async () => {
+    const first = new FileJournalStorage({ path });
+    await first.put(createEntry('test-1'));
+    await first.close();
+
+    // Simulate a crash mid-write
+    await appendFile(path, '{"op":"set","entry":{"id":"test-2","requ');
+
+    const second = new FileJournalStorage({ path });
+    const all = await second.getAll();
+    expect(all.map(e => e.id)).toEqual(['test-1']);
+
+    // Journal is truncated, so new writes are not glued to the torn line
+    await second.put(createEntry('test-3'));
+    await second.close();
+
+    const third = new FileJournalStorage({ path });
+    expect((await third.getAll()).map(e => e.id).sort()).toEqual(['test-1', 'test-3']);
+    await third.close();
+  });
+
+  it('should reject a journal corrupted before its last line', async () => {
+    await writeFile(path, 'not json\n{"op":"clear"}\n');
+
+    const storage = new FileJournalStorage({ path });
+    await expect(storage.getAll()).rejects.toThrow(PersistenceError);
+  });
+
+  it('should compact the journal once superseded records pile up', async () => {
+    const storage = new FileJournalStorage({ path, compactThreshold: 5 });
+    await storage.put(createEntry('test-1'));
+
+    for (let i = 1; i <= 4; i++) {
+      await storage.update('test-1', { attemptCount: i });
+    }
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(5);
+
+    await storage.update('test-1', { attemptCount: 5 });
+    const compacted = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(compacted).toHaveLength(1);
+    await storage.close();
+
+    const reopened = new FileJournalStorage({ path });
+    expect((await reopened.get('test-1'))?.attemptCount).toBe(5);
+    await reopened.close();
+  });
+
+  describe('write failures', () => {
+    // FileHandle is not exported, so reach its prototype through an instance
+    async function fileHandlePrototype(): Promise<FileHandle> {
+      const handle = await open(path, 'a+');
+      await handle.close();
+      return Object.getPrototypeOf(handle) as FileHandle;
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should finish partial writes', async () => {
+      const proto = await fileHandlePrototype();
+      const write = proto.write;
+      vi.spyOn(proto, 'write').mockImplementation(function (this: FileHandle, buffer: Uint8Array, offset?: number, length?: number) {
+        return write.call(this, buffer, offset, Math.min(length ?? buffer.length, 16));
+      } as FileHandle['write']);
+
+      const storage = new FileJournalStorage({ path });
+      await storage.put(createEntry('test-1'));
+      await storage.close();
+      vi.restoreAllMocks();
+
+      const reopened = new FileJournalStorage({ path });
+      expect((await reopened.get('test-1'))?.request.body).toEqual({ test: 'data' });
+      await reopened.close();
+    });
+
+    it('should truncate a failed append so later records stay readable', async () => {
+      const storage = new FileJournalStorage({ path });
+      await storage.put(createEntry('test-1'));
+      const { size } = await stat(path);
+
+      const proto = await fileHandlePrototype();
+      const write = proto.write;
+      let calls = 0;
+      vi.spyOn(proto, 'write').mockImplementation(function (this: FileHandle, buffer: Uint8Array, offset?: number, length?: number) {
+        calls++;
+        if (calls > 1) {
+          return Promise.reject(Object.assign(new Error('No space left on device'), { code: 'ENOSPC' }));
+        }
+        return write.call(this, buffer, offset, Math.min(length ?? buffer.length, 16));
+      } as FileHandle['write']);
+
+      await expect(storage.put(createEntry('test-2'))).rejects.toThrow(QuotaExceededError);
+      expect((await stat(path)).size).toBe(size);
+      vi.restoreAllMocks();
+
+      await storage.put(createEntry('test-3'));
+      await storage.close();
+
+      const reopened = new FileJournalStorage({ path });
+      expect((await reopened.getAll()).map(e => e.id)).toEqual(['test-1', 'test-3']);
+      await reopened.close();
+    });
+
+    it('should keep a mutation when compaction fails and compact later', async () => {
+      const storage = new FileJournalStorage({ path, compactThreshold: 2 });
+      await storage.put(createEntry('test-1'));
+
+      // A directory in the way of the temp file makes compaction fail
+      await mkdir(`${path}.compact`);
+      await storage.update('test-1', { attemptCount: 1 });
+      await storage.update('test-1', { attemptCount: 2 });
+      expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(3);
+      expect((await storage.get('test-1'))?.attemptCount).toBe(2);
+
+      await rm(`${path}.compact`, { recursive: true });
+      await storage.update('test-1', { attemptCount: 3 });
+      expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(1);
+      await storage.close();
+
+      const reopened = new FileJournalStorage({ path });
+      expect((await reopened.get('test-1'))?.attemptCount).toBe(3);
+      await reopened.close();
+    });
+  });
+
+  it('should truncate the journal on clear', async () => {
+    const storage = new FileJournalStorage({ path });
+    await storage.put(createEntry('test-1'));
+    await storage.put(createEntry('test-2'));
+
+    await storage.clear();
+
+    expect((await stat(path)).size).toBe(0);
+    expect(await storage.count()).toBe(0);
+    await storage.close();
+  });
+});
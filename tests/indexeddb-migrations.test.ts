@@ -0,0 +1,179 @@
+/**
+ * IndexedDB Schema Migration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { IndexedDBStorage } from '../src/storage/indexeddb.js';
+import { PersistenceError } from '../src/types.js';
+
+function uniqueDbName(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+function openDb(
+  name: string,
+  version: number,
+  upgrade?: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a database exactly as request-ledger 0.1 did: version 1,
+ * body and metadata stored as JSON strings.
+ */
+async function createV1Database(name: string, storeName = 'entries'): Promise<void> {
+  const db = await openDb(name, 1, (db) => {
+    const store = db.createObjectStore(storeName, { keyPath: 'id' });
+    store.createIndex('status', 'status', { unique: false });
+    store.createIndex('createdAt', 'createdAt', { unique: false });
+    store.createIndex('idempotencyKey', 'idempotencyKey', { unique: false });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.add({
+      id: 'order-1',
+      request: { url: '/api/orders', method: 'POST', headers: {}, body: JSON.stringify({ items: [1, 2] }) },
+      status: 'pending',
+      attemptCount: 0,
+      createdAt: 1000,
+      idempotencyKey: 'order-1-v1',
+      metadata: JSON.stringify({ userId: 7 }),
+    });
+    store.add({
+      id: 'order-2',
+      request: { url: '/api/orders/2', method: 'DELETE', headers: {}, body: undefined },
+      status: 'failed',
+      attemptCount: 3,
+      createdAt: 2000,
+      error: { message: 'HTTP 404: Client error', code: '404' },
+      metadata: undefined,
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  db.close();
+}
+
+describe('IndexedDB schema migrations', () => {
+  it('should upgrade a v1 database and keep its entries', async () => {
+    const dbName = uniqueDbName('migrate-v1');
+    await createV1Database(dbName);
+
+    const storage = new IndexedDBStorage({ dbName });
+    try {
+      const all = await storage.getAll();
+      expect(all.map(e => e.id)).toEqual(['order-1', 'order-2']);
+      expect(all[0]?.request.body).toEqual({ items: [1, 2] });
+      expect(all[0]?.metadata).toEqual({ userId: 7 });
+      expect(all[0]?.idempotencyKey).toBe('order-1-v1');
+      expect(all[1]?.request.body).toBeUndefined();
+      expect(all[1]?.metadata).toBeUndefined();
+      expect(all[1]?.error).toEqual({ message: 'HTTP 404: Client error', code: '404' });
+
+      // New writes use the current format alongside migrated entries
+      await storage.put({
+        id: 'order-3',
+        request: { url: '/api/orders', method: 'POST', headers: {}, body: 'plain' },
+        status: 'pending',
+        attemptCount: 0,
+        createdAt: 3000,
+      });
+      expect((await storage.get('order-3'))?.request.body).toBe('plain');
+    } finally {
+      storage.close();
+    }
+
+    const db = await openDb(dbName, 4);
+    const indexes = Array.from(db.transaction('entries').objectStore('entries').indexNames);
+    db.close();
+    expect(indexes).toContain('statusCreatedAt');
+    expect(indexes).toContain('queueStatusCreatedAt');
+
+    // Reopening does not migrate twice
+    const reopened = new IndexedDBStorage({ dbName });
+    try {
+      expect((await reopened.get('order-1'))?.request.body).toEqual({ items: [1, 2] });
+    } finally {
+      reopened.close();
+    }
+  });
+
+  it('should add a ledger store to a versioned application database', async () => {
+    const dbName = uniqueDbName('app-db');
+    const appDb = await openDb(dbName, 3, (db) => db.createObjectStore('settings'));
+    appDb.close();
+
+    const upgrades: Array<[number, number]> = [];
+    const storage = new IndexedDBStorage({
+      dbName,
+      storeName: 'outbox',
+      version: 4,
+      onUpgrade: (_db, _tx, oldVersion, newVersion) => upgrades.push([oldVersion, newVersion]),
+    });
+
+    try {
+      await storage.put({
+        id: 'test-1',
+        request: { url: '/test', method: 'POST', headers: {}, body: { a: 1 } },
+        status: 'pending',
+        attemptCount: 0,
+        createdAt: 1000,
+      });
+      expect(await storage.count()).toBe(1);
+      expect(upgrades).toEqual([[3, 4]]);
+    } finally {
+      storage.close();
+    }
+
+    const db = await openDb(dbName, 4);
+    expect(Array.from(db.objectStoreNames)).toEqual(expect.arrayContaining(['settings', 'outbox']));
+    db.close();
+  });
+
+  it('should migrate a v1 store under a custom name in an application database', async () => {
+    const dbName = uniqueDbName('app-db-v1');
+    await createV1Database(dbName, 'outbox');
+
+    const storage = new IndexedDBStorage({ dbName, storeName: 'outbox', version: 2 });
+    try {
+      expect((await storage.get('order-1'))?.request.body).toEqual({ items: [1, 2] });
+    } finally {
+      storage.close();
+    }
+  });
+
+  it('should fail clearly when an application database is opened without a version bump', async () => {
+    const dbName = uniqueDbName('app-db-stale');
+    await createV1Database(dbName, 'outbox');
+
+    const storage = new IndexedDBStorage({ dbName, storeName: 'outbox', version: 1 });
+    await expect(storage.count()).rejects.toThrow(PersistenceError);
+    await expect(storage.count()).rejects.toThrow(/schema version 1, expected \d+/);
+  });
+
+  it('should abort the upgrade when the application upgrade throws', async () => {
+    const dbName = uniqueDbName('app-db-fail');
+
+    const storage = new IndexedDBStorage({
+      dbName,
+      onUpgrade: () => {
+        throw new Error('app migration failed');
+      },
+    });
+    await expect(storage.count()).rejects.toThrow('Application upgrade failed');
+
+    // Nothing was committed
+    const db = await openDb(dbName, 1);
+    expect(db.objectStoreNames.contains('entries')).toBe(false);
+    db.close();
+  });
+});
@@ -3,8 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createLedger, IndexedDBStorage } from '../src/index.js';
-import type { LedgerEntry, LedgerHooks } from '../src/types.js';
+import { createLedger, DuplicateEntryError, IndexedDBStorage, LedgerError, LedgerFullError, MemoryStorage, type RequestLedger } from '../src/index.js';
+import type { LedgerChange, LedgerConfig, LedgerEntry, LedgerHooks, LedgerSnapshot, RequestOptions, StoredRequest } from '../src/types.js';
 
 describe('RequestLedger Integration', () => {
   let storage: IndexedDBStorage;
@@ -144,6 +144,1254 @@ describe('RequestLedger Integration', () => {
     });
   });
 
+  describe('eviction', () => {
+    it('should fire onEvict for entries evicted from the default storage', async () => {
+      const onEvict = vi.fn();
+      const ledger = createLedger({
+        storageConfig: {
+          dbName: `integration-evict-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+          maxEntries: 1,
+        },
+        onlineCheck: { customCheck: async () => false },
+        hooks: { onEvict },
+      });
+      const changes: LedgerChange[] = [];
+      ledger.subscribe((change) => changes.push(change));
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      await ledger.request({ id: 'test-2', url: '/test', method: 'POST' });
+
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict.mock.calls[0]?.[0]).toMatchObject({ id: 'test-1' });
+      expect(changes).toContainEqual({ type: 'remove', entryId: 'test-1', remote: false });
+
+      await ledger.destroy();
+    });
+
+    it('should surface LedgerFullError from request when the policy rejects', async () => {
+      const ledger = createLedger({
+        storageConfig: {
+          dbName: `integration-full-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+          maxEntries: 1,
+          evictionPolicy: 'reject',
+        },
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      await expect(
+        ledger.request({ id: 'test-2', url: '/test', method: 'POST' })
+      ).rejects.toThrow(LedgerFullError);
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('request bodies', () => {
+    async function replayBody(options: Pick<RequestOptions, 'body' | 'bodyKind'>) {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/upload', method: 'POST', ...options });
+      online = true;
+      await ledger.process();
+      await ledger.destroy();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+      return { body: init.body, headers: init.headers as Headers };
+    }
+
+    it('should replay FormData with file parts', async () => {
+      const form = new FormData();
+      form.append('title', 'Report');
+      form.append('file', new Blob(['hello'], { type: 'text/plain' }), 'hello.txt');
+
+      const { body, headers } = await replayBody({ body: form });
+
+      expect(body).toBeInstanceOf(FormData);
+      const replayed = body as FormData;
+      expect(replayed.get('title')).toBe('Report');
+      const file = replayed.get('file') as File;
+      expect(file.name).toBe('hello.txt');
+      expect(file.type).toBe('text/plain');
+      expect(await file.text()).toBe('hello');
+      // fetch sets the multipart boundary itself
+      expect(headers.has('Content-Type')).toBe(false);
+    });
+
+    it('should replay a Blob with its content type', async () => {
+      const { body } = await replayBody({ body: new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }) });
+
+      expect(body).toBeInstanceOf(Blob);
+      expect((body as Blob).type).toBe('image/png');
+      expect(Array.from(new Uint8Array(await (body as Blob).arrayBuffer()))).toEqual([1, 2, 3]);
+    });
+
+    it('should replay URLSearchParams', async () => {
+      const { body } = await replayBody({ body: new URLSearchParams({ q: 'a b', page: '2' }) });
+
+      expect(body).toBeInstanceOf(URLSearchParams);
+      expect(body?.toString()).toBe('q=a+b&page=2');
+    });
+
+    it('should send strings as plain text with bodyKind text', async () => {
+      const { body, headers } = await replayBody({ body: 'hello', bodyKind: 'text' });
+
+      expect(body).toBe('hello');
+      expect(headers.has('Content-Type')).toBe(false);
+    });
+
+    it('should keep JSON bodies as before', async () => {
+      const { body, headers } = await replayBody({ body: { data: 'test' } });
+
+      expect(body).toBe('{"data":"test"}');
+      expect(headers.get('Content-Type')).toBe('application/json');
+      expect((await storage.getAll())).toHaveLength(0);
+    });
+  });
+
+  describe('queues', () => {
+    it('should store the queue name on the entry', async () => {
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST', queue: 'mutations' });
+      await ledger.request({ id: 'test-2', url: '/test', method: 'POST' });
+
+      expect((await ledger.get('test-1'))?.queue).toBe('mutations');
+      expect((await ledger.get('test-2'))?.queue).toBeUndefined();
+      expect((await ledger.list({ queue: 'mutations' })).map(e => e.id)).toEqual(['test-1']);
+
+      await ledger.destroy();
+    });
+
+    it('should evict only from the queue over its maxEntries', async () => {
+      const onEvict = vi.fn();
+      const ledger = createLedger({
+        storage,
+        queues: { analytics: { maxEntries: 2 } },
+        onlineCheck: { customCheck: async () => false },
+        hooks: { onEvict },
+      });
+
+      await ledger.request({ id: 'order-1', url: '/orders', method: 'POST' });
+      await ledger.request({ id: 'event-1', url: '/events', method: 'POST', queue: 'analytics' });
+      await ledger.request({ id: 'event-2', url: '/events', method: 'POST', queue: 'analytics' });
+      await ledger.request({ id: 'event-3', url: '/events', method: 'POST', queue: 'analytics' });
+
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict.mock.calls[0]?.[0]).toMatchObject({ id: 'event-1' });
+      // Entries created in the same millisecond are listed by ID
+      expect((await ledger.list()).map(e => e.id).sort()).toEqual(['event-2', 'event-3', 'order-1']);
+
+      await ledger.destroy();
+    });
+
+    it('should reject when a queue with the reject policy is full', async () => {
+      const ledger = createLedger({
+        storage,
+        queues: { uploads: { maxEntries: 1, evictionPolicy: 'reject' } },
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      await ledger.request({ id: 'upload-1', url: '/upload', method: 'POST', queue: 'uploads' });
+      await expect(
+        ledger.request({ id: 'upload-2', url: '/upload', method: 'POST', queue: 'uploads' })
+      ).rejects.toThrow(LedgerFullError);
+      await ledger.request({ id: 'order-1', url: '/orders', method: 'POST' });
+
+      expect(await storage.count()).toBe(2);
+      await ledger.destroy();
+    });
+
+    it('should process only the requested queue', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'order-1', url: '/orders', method: 'POST' });
+      await ledger.request({ id: 'event-1', url: '/events', method: 'POST', queue: 'analytics' });
+      online = true;
+      await ledger.process({ queue: 'default' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0]?.[0]).toBe('/orders');
+      expect((await ledger.list()).map(e => e.id)).toEqual(['event-1']);
+
+      await ledger.destroy();
+    });
+
+    it('should use the queue retry strategy', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 1, delayMs: 0 },
+        queues: { critical: { retry: { type: 'fixed', maxAttempts: 3, delayMs: 0 } } },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST', queue: 'critical' });
+      online = true;
+      await ledger.process({ stopOnError: false });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect((await ledger.get('test-1'))?.status).toBe('failed');
+
+      await ledger.destroy();
+    });
+
+    it('should send up to each queue\'s concurrency at once', async () => {
+      const inFlight: string[] = [];
+      let maxInFlight = 0;
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        inFlight.push(url);
+        maxInFlight = Math.max(maxInFlight, inFlight.length);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight.splice(inFlight.indexOf(url), 1);
+        return { ok: true, status: 200 };
+      });
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        queues: { analytics: { concurrency: 2 } },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'order-1', url: '/orders', method: 'POST' });
+      await ledger.request({ id: 'event-1', url: '/events', method: 'POST', queue: 'analytics' });
+      await ledger.request({ id: 'event-2', url: '/events', method: 'POST', queue: 'analytics' });
+      online = true;
+      await ledger.process();
+
+      expect(maxInFlight).toBe(3);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('retry scheduling', () => {
+    it('should send other entries while one backs off', async () => {
+      const fetchMock = vi.fn().mockImplementation(async (url: string) => (
+        url === '/a' && fetchMock.mock.calls.length === 1 ? { ok: false, status: 503 } : { ok: true, status: 200 }
+      ));
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 2, delayMs: 50 },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'a', url: '/a', method: 'POST' });
+      await ledger.request({ id: 'b', url: '/b', method: 'POST' });
+      online = true;
+      await ledger.process({ stopOnError: false });
+
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/a', '/b', '/a']);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should persist the backoff so a reloaded ledger waits for it', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+      global.fetch = fetchMock;
+      let online = false;
+      const config: LedgerConfig = {
+        storage,
+        retry: { type: 'fixed', maxAttempts: 3, delayMs: 60_000 },
+        onlineCheck: { customCheck: async () => online },
+      };
+
+      const ledger = createLedger(config);
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      const before = Date.now();
+      await ledger.process();
+      await ledger.destroy();
+
+      const entry = await storage.get('test-1');
+      expect(entry?.status).toBe('pending');
+      expect(entry?.nextAttemptAt).toBeGreaterThanOrEqual(before + 60_000);
+
+      // A new ledger on the same storage, as after a page reload
+      const reloaded = createLedger(config);
+      const processing = reloaded.process();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      reloaded.pause();
+      await processing;
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // Manual retry makes the entry due right away
+      await storage.update('test-1', { status: 'failed' });
+      await reloaded.retry('test-1');
+      expect((await reloaded.get('test-1'))?.nextAttemptAt).toBeUndefined();
+
+      await reloaded.destroy();
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should retry a 429 no earlier than its Retry-After', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '120' }) });
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 3, delayMs: 1000 },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      const before = Date.now();
+      await ledger.process();
+
+      const entry = await ledger.get('test-1');
+      expect(entry?.status).toBe('pending');
+      expect(entry?.nextAttemptAt).toBeGreaterThanOrEqual(before + 120_000);
+
+      await ledger.destroy();
+    });
+
+    it('should honor an HTTP-date Retry-After on 503, capped at maxRetryAfterMs', async () => {
+      const retryAt = new Date(Date.now() + 3_600_000).toUTCString();
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, headers: new Headers({ 'Retry-After': retryAt }) });
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 3, delayMs: 0 },
+        maxRetryAfterMs: 10_000,
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      const before = Date.now();
+      await ledger.process();
+
+      const nextAttemptAt = (await ledger.get('test-1'))?.nextAttemptAt;
+      expect(nextAttemptAt).toBeGreaterThanOrEqual(before + 9_000);
+      expect(nextAttemptAt).toBeLessThanOrEqual(Date.now() + 10_000);
+
+      await ledger.destroy();
+    });
+
+    it('should hold back other entries for a rate-limited origin', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => (
+        fetchMock.mock.calls.length === 1
+          ? { ok: false, status: 429, headers: new Headers({ 'Retry-After': '1' }) }
+          : { ok: true, status: 200 }
+      ));
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 2, delayMs: 0 },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'a', url: 'https://api.example.com/a', method: 'POST' });
+      await ledger.request({ id: 'b', url: 'https://api.example.com/b', method: 'POST' });
+      await ledger.request({ id: 'c', url: 'https://other.example.com/c', method: 'POST' });
+      online = true;
+      await ledger.process({ stopOnError: false });
+
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+        'https://api.example.com/a',
+        'https://other.example.com/c',
+        'https://api.example.com/a',
+        'https://api.example.com/b',
+      ]);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('classifyResponse', () => {
+    async function replay(config: Partial<LedgerConfig>, response: Response, stopOnError = false) {
+      const fetchMock = vi.fn().mockResolvedValue(response);
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 3, delayMs: 0 },
+        onlineCheck: { customCheck: async () => online },
+        ...config,
+      });
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      await ledger.process({ stopOnError }).catch(() => {});
+      return { ledger, fetchMock };
+    }
+
+    it('should complete entries the classifier accepts', async () => {
+      const onReplaySuccess = vi.fn();
+      const { ledger } = await replay({
+        hooks: { onReplaySuccess },
+        classifyResponse: (_entry, response) => (response.status === 409 ? 'success' : 'fail'),
+      }, new Response(null, { status: 409 }));
+
+      expect(onReplaySuccess).toHaveBeenCalledTimes(1);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should leave the body unread for hooks after the classifier reads it', async () => {
+      const bodies: unknown[] = [];
+      const { ledger } = await replay({
+        hooks: { onReplaySuccess: (_entry, response) => { bodies.push(response.json()); } },
+        classifyResponse: async (_entry, response) => ((await response.json()).error ? 'fail' : 'success'),
+      }, new Response(JSON.stringify({ id: 42 }), { status: 200 }));
+
+      expect(await Promise.all(bodies)).toEqual([{ id: 42 }]);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should fail entries the classifier rejects after reading the body', async () => {
+      const { ledger, fetchMock } = await replay({
+        classifyResponse: async (_entry, response) => ((await response.json()).error ? 'fail' : 'success'),
+      }, new Response(JSON.stringify({ error: 'invalid' }), { status: 200 }));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const entry = await ledger.get('test-1');
+      expect(entry?.status).toBe('failed');
+      expect(entry?.error).toEqual({ message: 'HTTP 200: Unexpected response', code: '200' });
+
+      await ledger.destroy();
+    });
+
+    it('should retry when the classifier says so', async () => {
+      const { ledger, fetchMock } = await replay({
+        classifyResponse: (_entry, response) => (response.status === 408 ? 'retry' : 'fail'),
+      }, new Response(null, { status: 408 }));
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect((await ledger.get('test-1'))?.error?.message).toBe('HTTP 408: Client error, max retries exceeded');
+
+      await ledger.destroy();
+    });
+
+    it('should schedule the retry after a classifier-supplied delay', async () => {
+      const before = Date.now();
+      const { ledger, fetchMock } = await replay({
+        classifyResponse: () => ({ retryAfterMs: 60_000 }),
+      }, new Response(null, { status: 425 }), true);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await ledger.get('test-1'))?.nextAttemptAt).toBeGreaterThanOrEqual(before + 60_000);
+
+      await ledger.destroy();
+    });
+
+    it('should fail entries whose response cannot be classified', async () => {
+      const { ledger } = await replay({
+        classifyResponse: () => {
+          throw new Error('Unreadable response');
+        },
+      }, new Response(null, { status: 200 }));
+
+      expect((await ledger.get('test-1'))?.error).toEqual({ message: 'Unreadable response', code: 'CLASSIFY_ERROR' });
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should send dependents only after their dependencies succeed', async () => {
+      const events: string[] = [];
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        events.push(`start ${url}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`end ${url}`);
+        return { ok: true, status: 201 };
+      });
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+      await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+      expect((await ledger.get('task'))?.dependsOn).toEqual(['project']);
+
+      online = true;
+      await ledger.process({ concurrency: 2 });
+
+      expect(events).toEqual(['start /projects', 'end /projects', 'start /tasks', 'end /tasks']);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should queue a request whose dependency is still queued, even when online', async () => {
+      const fetchMock = vi.fn();
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+      online = true;
+      const result = await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+
+      expect(result).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect((await ledger.get('task'))?.status).toBe('pending');
+
+      await ledger.destroy();
+    });
+
+    it('should block dependents of a failed entry until it is retried', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce({ ok: false, status: 400 }).mockResolvedValue({ ok: true, status: 201 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+      await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+      await ledger.request({ id: 'comment', url: '/comments', method: 'POST', dependsOn: ['task'] });
+      await ledger.request({ id: 'standalone', url: '/other', method: 'POST' });
+      online = true;
+      await ledger.process({ stopOnError: false });
+
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/projects', '/other']);
+      expect((await ledger.get('project'))?.status).toBe('failed');
+      expect((await ledger.get('task'))?.status).toBe('blocked');
+      expect((await ledger.get('comment'))?.status).toBe('blocked');
+
+      await ledger.retry('project');
+      expect((await ledger.get('task'))?.status).toBe('pending');
+      expect((await ledger.get('comment'))?.status).toBe('pending');
+
+      await ledger.process();
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/projects', '/other', '/projects', '/tasks', '/comments']);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should block entries added after their dependency failed', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 422 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+      online = true;
+      await ledger.process();
+      await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+      await ledger.process();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await ledger.get('task'))?.status).toBe('blocked');
+
+      await ledger.destroy();
+    });
+
+    describe('when a dependency leaves the ledger without succeeding', () => {
+      async function expectOnlySent(ledger: RequestLedger, fetchMock: ReturnType<typeof vi.fn>, urls: string[]) {
+        expect((await ledger.get('task'))?.status).toBe('blocked');
+        await ledger.process();
+        expect(fetchMock.mock.calls.map(call => call[0])).toEqual(urls);
+      }
+
+      it('should block dependents of an entry evicted by storage', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 201 });
+        global.fetch = fetchMock;
+        let online = false;
+        const evicted: string[] = [];
+
+        const memory = new MemoryStorage({ maxEntries: 2, onEvict: (entry) => ledger.evicted(entry) });
+        const ledger = createLedger({
+          storage: memory,
+          onlineCheck: { customCheck: async () => online },
+          hooks: { onEvict: (entry) => evicted.push(entry.id) },
+        });
+
+        await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+        await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+        await ledger.request({ id: 'other', url: '/other', method: 'POST' });
+        online = true;
+
+        expect(evicted).toEqual(['project']);
+        await expectOnlySent(ledger, fetchMock, ['/other']);
+
+        await ledger.destroy();
+      });
+
+      it('should block dependents of an entry evicted by its queue limit', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 201 });
+        global.fetch = fetchMock;
+        let online = false;
+
+        const ledger = createLedger({
+          storage,
+          onlineCheck: { customCheck: async () => online },
+          queues: { analytics: { maxEntries: 1 } },
+        });
+
+        await ledger.request({ id: 'project', url: '/projects', method: 'POST', queue: 'analytics' });
+        await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+        await ledger.request({ id: 'other', url: '/other', method: 'POST', queue: 'analytics' });
+        online = true;
+
+        expect(await ledger.get('project')).toBeUndefined();
+        await expectOnlySent(ledger, fetchMock, ['/other']);
+
+        await ledger.destroy();
+      });
+
+      it('should block dependents of a removed entry', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 201 });
+        global.fetch = fetchMock;
+        let online = false;
+
+        const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+        await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+        await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+        await ledger.remove('project');
+        online = true;
+
+        await expectOnlySent(ledger, fetchMock, []);
+
+        await ledger.destroy();
+      });
+
+      it('should block dependents added while the ledger is cleared', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 201 });
+        global.fetch = fetchMock;
+        let online = false;
+
+        // Another tab queues a dependent of a cleared entry during clear()
+        class RacingStorage extends MemoryStorage {
+          override async clear(): Promise<void> {
+            await super.clear();
+            await this.put({
+              id: 'task',
+              request: { url: '/tasks', method: 'POST', headers: {} },
+              status: 'pending',
+              attemptCount: 0,
+              createdAt: Date.now(),
+              dependsOn: ['project'],
+            });
+          }
+        }
+        const ledger = createLedger({ storage: new RacingStorage(), onlineCheck: { customCheck: async () => online } });
+
+        await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+        await ledger.clear();
+        online = true;
+
+        await expectOnlySent(ledger, fetchMock, []);
+
+        await ledger.destroy();
+      });
+
+      it('should not block dependents of a retained completed entry', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 201 });
+        global.fetch = fetchMock;
+        let online = false;
+
+        const ledger = createLedger({
+          storage,
+          onlineCheck: { customCheck: async () => online },
+          retention: { maxCount: 10 },
+        });
+
+        await ledger.request({ id: 'project', url: '/projects', method: 'POST' });
+        online = true;
+        await ledger.process();
+        online = false;
+        await ledger.request({ id: 'task', url: '/tasks', method: 'POST', dependsOn: ['project'] });
+        await ledger.remove('project');
+        online = true;
+
+        expect((await ledger.get('task'))?.status).toBe('pending');
+        await ledger.process();
+        expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/projects', '/tasks']);
+
+        await ledger.destroy();
+      });
+    });
+  });
+
+  describe('ordering keys', () => {
+    it('should send entries with the same key in order and different keys in parallel', async () => {
+      const events: string[] = [];
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        events.push(`start ${url}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`end ${url}`);
+        return { ok: true, status: 200 };
+      });
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'a1', url: '/docs/a?v=1', method: 'PUT', orderingKey: 'doc-a' });
+      await ledger.request({ id: 'a2', url: '/docs/a?v=2', method: 'PUT', orderingKey: 'doc-a' });
+      await ledger.request({ id: 'b1', url: '/docs/b?v=1', method: 'PUT', orderingKey: 'doc-b' });
+      expect((await ledger.get('a2'))?.orderingKey).toBe('doc-a');
+      online = true;
+      await ledger.process({ concurrency: 4 });
+
+      expect(events).toEqual([
+        'start /docs/a?v=1',
+        'start /docs/b?v=1',
+        'end /docs/a?v=1',
+        'end /docs/b?v=1',
+        'start /docs/a?v=2',
+        'end /docs/a?v=2',
+      ]);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should hold back only the failed entry\'s key', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce({ ok: false, status: 400 }).mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'a1', url: '/docs/a?v=1', method: 'PUT', orderingKey: 'doc-a' });
+      await ledger.request({ id: 'a2', url: '/docs/a?v=2', method: 'PUT', orderingKey: 'doc-a' });
+      await ledger.request({ id: 'b1', url: '/docs/b?v=1', method: 'PUT', orderingKey: 'doc-b' });
+      online = true;
+      await ledger.process({ concurrency: 4, stopOnError: false });
+
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/docs/a?v=1', '/docs/b?v=1']);
+      expect((await ledger.get('a1'))?.status).toBe('failed');
+      expect((await ledger.get('a2'))?.status).toBe('pending');
+
+      // A request for the held-back key is queued behind it, even online
+      await ledger.request({ id: 'a3', url: '/docs/a?v=3', method: 'PUT', orderingKey: 'doc-a' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await ledger.retry('a1');
+      await ledger.process({ concurrency: 4 });
+      expect(fetchMock.mock.calls.slice(2).map(call => call[0])).toEqual(['/docs/a?v=1', '/docs/a?v=2', '/docs/a?v=3']);
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('priority', () => {
+    it('should replay higher-priority entries first', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'ping-1', url: '/telemetry/1', method: 'POST', priority: -1 });
+      await ledger.request({ id: 'ping-2', url: '/telemetry/2', method: 'POST', priority: -1 });
+      await ledger.request({ id: 'note', url: '/notes', method: 'POST' });
+      await ledger.request({ id: 'payment', url: '/payments/confirm', method: 'POST', priority: 10 });
+      expect((await ledger.get('payment'))?.priority).toBe(10);
+      expect((await ledger.get('note'))?.priority).toBeUndefined();
+
+      expect((await ledger.list({ orderBy: 'priority', limit: 2 })).map(e => e.id)).toEqual(['payment', 'note']);
+
+      online = true;
+      await ledger.process();
+
+      expect(fetchMock.mock.calls.map(call => call[0])).toEqual(['/payments/confirm', '/notes', '/telemetry/1', '/telemetry/2']);
+
+      await ledger.destroy();
+    });
+
+    it('should age waiting entries so they are not starved', async () => {
+      const ledger = createLedger({
+        storage,
+        priorityAgingMs: 1000,
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      await ledger.request({ id: 'fresh', url: '/fresh', method: 'POST', priority: 2 });
+      await storage.put({
+        id: 'old',
+        request: { url: '/old', method: 'POST', headers: {}, body: null },
+        status: 'pending',
+        attemptCount: 0,
+        createdAt: Date.now() - 5000,
+        priority: -1,
+      });
+
+      // Waiting 5s at 1s per step lifts 'old' from -1 past 2
+      expect((await ledger.list({ orderBy: 'priority' })).map(e => e.id)).toEqual(['old', 'fresh']);
+
+      await ledger.destroy();
+    });
+
+    it('should honor priorities of entries added during replay', async () => {
+      const urls: string[] = [];
+      let ledger: ReturnType<typeof createLedger> | undefined;
+      global.fetch = vi.fn().mockImplementation(async (url: string) => {
+        urls.push(url);
+        if (url === '/first') {
+          await ledger?.request({ id: 'urgent', url: '/urgent', method: 'POST', priority: 5 });
+        }
+        return { ok: true, status: 200 };
+      });
+      let online = false;
+      ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request({ id: 'test-1', url: '/first', method: 'POST' });
+      await ledger.request({ id: 'test-2', url: '/second', method: 'POST' });
+      online = true;
+      await ledger.process();
+
+      expect(urls).toEqual(['/first', '/urgent', '/second']);
+      await ledger.destroy();
+    });
+
+    it('should only load the head of queues without priorities', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      let online = false;
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+      for (let i = 1; i <= 5; i++) {
+        await ledger.request({ id: `test-${i}`, url: '/test', method: 'POST' });
+      }
+
+      const query = vi.spyOn(storage, 'query');
+      online = true;
+      await ledger.process();
+
+      const dueQueries = query.mock.calls.map(([q]) => q).filter(q => q.dueBy !== undefined);
+      expect(dueQueries.length).toBeGreaterThanOrEqual(5);
+      expect(dueQueries.every(q => q.limit === 1)).toBe(true);
+      await ledger.destroy();
+    });
+  });
+
+  describe('coalescing', () => {
+    function patch(version: number, extra: Partial<RequestOptions> = {}): RequestOptions {
+      return {
+        id: `edit-${version}`,
+        url: '/records/1',
+        method: 'PATCH',
+        body: { [`field${version}`]: version },
+        coalesceKey: 'record-1',
+        coalesce: 'last-write-wins',
+        ...extra,
+      };
+    }
+
+    it('should replace the queued request with last-write-wins', async () => {
+      const onPersist = vi.fn();
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+
+      const ledger = createLedger({ storage, hooks: { onPersist }, onlineCheck: { customCheck: async () => online } });
+
+      for (let version = 1; version <= 3; version++) {
+        await ledger.request(patch(version));
+      }
+
+      const entries = await ledger.list();
+      expect(entries.map(e => e.id)).toEqual(['edit-1']);
+      expect(entries[0]?.request.body).toEqual({ field3: 3 });
+      expect(entries[0]?.coalesceKey).toBe('record-1');
+      expect(onPersist).toHaveBeenCalledTimes(3);
+
+      // Requests made online also coalesce rather than overtake the queued one
+      online = true;
+      await ledger.request(patch(4));
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await ledger.process();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fetchMock.mock.calls[0]?.[1].body)).toEqual({ field4: 4 });
+
+      await ledger.destroy();
+    });
+
+    it('should merge with a custom policy', async () => {
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+      const merge = (older: StoredRequest, newer: StoredRequest): StoredRequest => ({
+        ...newer,
+        body: { ...(older.body as object), ...(newer.body as object) },
+      });
+
+      await ledger.request(patch(1, { coalesce: merge }));
+      await ledger.request(patch(2, { coalesce: merge }));
+
+      expect((await ledger.get('edit-1'))?.request.body).toEqual({ field1: 1, field2: 2 });
+      expect(await storage.count()).toBe(1);
+
+      await ledger.destroy();
+    });
+
+    it('should not coalesce into entries being processed or already attempted', async () => {
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+
+      await ledger.request(patch(1));
+      await storage.update('edit-1', { status: 'processing', attemptCount: 1 });
+      await ledger.request(patch(2));
+      await storage.update('edit-1', { status: 'pending' });
+      await ledger.request(patch(3));
+
+      const entries = await ledger.list();
+      expect(entries.map(e => e.id)).toEqual(['edit-1', 'edit-2']);
+      expect(entries.map(e => e.request.body)).toEqual([{ field1: 1 }, { field3: 3 }]);
+
+      await ledger.destroy();
+    });
+
+    it('should resolve coalesced IDs for get and dependsOn', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      let online = false;
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
+
+      await ledger.request(patch(1, { url: '/doc/1?v=1' }));
+      await ledger.request(patch(2, { url: '/doc/1?v=2' }));
+      await ledger.request({ id: 'publish', url: '/doc/1/publish', method: 'POST', dependsOn: ['edit-2'] });
+
+      expect((await ledger.get('edit-2'))?.id).toBe('edit-1');
+      expect((await ledger.get('edit-1'))?.coalescedIds).toEqual(['edit-2']);
+      expect((await ledger.get('publish'))?.dependsOn).toEqual(['edit-1']);
+
+      online = true;
+      await ledger.process();
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/doc/1?v=2', '/doc/1/publish']);
+
+      await ledger.destroy();
+    });
+
+    it('should require an explicit coalesce policy', async () => {
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+
+      await expect(ledger.request({ ...patch(1), coalesce: undefined })).rejects.toThrow(LedgerError);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('batch replay', () => {
+    function results(...statuses: number[]): Response[] {
+      return statuses.map(status => ({ ok: status < 300, status }) as Response);
+    }
+
+    async function queue(ids: string[], config: Partial<LedgerConfig>) {
+      let online = false;
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'fixed', maxAttempts: 3, delayMs: 0 },
+        onlineCheck: { customCheck: async () => online },
+        ...config,
+      });
+      for (const id of ids) {
+        await ledger.request({ id, url: `/items/${id}`, method: 'PUT', body: { id } });
+      }
+      online = true;
+      return ledger;
+    }
+
+    it('should send eligible entries in one request and settle each result', async () => {
+      const fetchMock = vi.fn();
+      global.fetch = fetchMock;
+      const send = vi.fn()
+        .mockResolvedValueOnce(results(200, 503, 400))
+        .mockResolvedValueOnce(results(200));
+      const hooks = { onReplayStart: vi.fn(), onReplaySuccess: vi.fn(), onReplayFailure: vi.fn() };
+
+      const ledger = await queue(['item-1', 'item-2', 'item-3'], { batchTransport: { send }, hooks });
+      await ledger.process({ stopOnError: false });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[0]?.[0].map((e: LedgerEntry) => e.id)).toEqual(['item-1', 'item-2', 'item-3']);
+      expect(send.mock.calls[1]?.[0].map((e: LedgerEntry) => e.id)).toEqual(['item-2']);
+
+      expect(hooks.onReplayStart).toHaveBeenCalledTimes(4);
+      expect(hooks.onReplaySuccess.mock.calls.map(([e]) => e.id)).toEqual(['item-1', 'item-2']);
+      expect(hooks.onReplayFailure.mock.calls.map(([e]) => e.id)).toEqual(['item-3']);
+
+      const entries = await ledger.list();
+      expect(entries.map(e => e.id)).toEqual(['item-3']);
+      expect(entries[0]?.status).toBe('failed');
+      expect(entries[0]?.attemptCount).toBe(1);
+      expect(entries[0]?.error?.code).toBe('400');
+
+      await ledger.destroy();
+    });
+
+    it('should split batches by maxBatchSize', async () => {
+      const send = vi.fn().mockImplementation(async (entries: LedgerEntry[]) => results(...entries.map(() => 200)));
+
+      const ledger = await queue(['item-1', 'item-2', 'item-3'], { batchTransport: { send, maxBatchSize: 2 } });
+      await ledger.process();
+
+      expect(send.mock.calls.map(([entries]) => entries.length)).toEqual([2, 1]);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should send ineligible entries individually', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock;
+      const send = vi.fn().mockImplementation(async (entries: LedgerEntry[]) => results(...entries.map(() => 200)));
+
+      const ledger = await queue(['item-1', 'item-2', 'item-3'], {
+        batchTransport: { send, eligible: entry => entry.id !== 'item-2' },
+      });
+      await ledger.process();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0]?.[0]).toBe('/items/item-2');
+      expect(send.mock.calls.flatMap(([entries]) => entries.map((e: LedgerEntry) => e.id))).toEqual(['item-1', 'item-3']);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should retry every entry when the batch request fails', async () => {
+      const send = vi.fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(results(200, 200));
+      const onFailure = vi.fn();
+
+      const ledger = await queue(['item-1', 'item-2'], { batchTransport: { send } });
+      await ledger.process({ stopOnError: false, onFailure });
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(onFailure).toHaveBeenCalledTimes(2);
+      expect(onFailure.mock.calls.map(([e]) => e.attemptCount)).toEqual([1, 1]);
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it.each([
+      ['throws', async () => { throw new Error('Unexpected token'); }, ['item-1', 'item-2']],
+      ['returns too few results', async () => results(200), ['item-1', 'item-2']],
+      ['returns a missing result', async () => [...results(200), undefined], ['item-2']],
+    ])('should fail the entries when the transport %s', async (_case, send, failed) => {
+      const onReplayFailure = vi.fn();
+
+      const ledger = await queue(['item-1', 'item-2'], {
+        batchTransport: { send: send as () => Promise<Response[]> },
+        hooks: { onReplayFailure },
+      });
+      await ledger.process({ stopOnError: false });
+
+      const entries = await ledger.list();
+      expect(entries.map(e => [e.id, e.status, e.attemptCount, e.error?.code])).toEqual(
+        failed.map(id => [id, 'failed', 1, 'BATCH_ERROR'])
+      );
+      expect(onReplayFailure.mock.calls.map(([e]) => e.id)).toEqual(failed);
+      expect(await ledger.getState()).not.toBe('pending');
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('retention', () => {
+    async function replay(ledgerOptions: Partial<LedgerConfig>, ids: string[]) {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        statusText: 'Created',
+        headers: new Headers({ Location: '/orders/42', 'Set-Cookie': 'secret' }),
+      });
+      let online = false;
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => online },
+        ...ledgerOptions,
+      });
+
+      for (const id of ids) {
+        await ledger.request({ id, url: '/orders', method: 'POST' });
+      }
+      online = true;
+      await ledger.process();
+      return ledger;
+    }
+
+    it('should remove succeeded entries by default', async () => {
+      const ledger = await replay({}, ['order-1']);
+
+      expect(await storage.count()).toBe(0);
+      await ledger.destroy();
+    });
+
+    it('should keep succeeded entries as completed with a response summary', async () => {
+      const before = Date.now();
+      const ledger = await replay({ retention: {} }, ['order-1']);
+
+      const entry = await ledger.get('order-1');
+      expect(entry?.status).toBe('completed');
+      expect(entry?.completedAt).toBeGreaterThanOrEqual(before);
+      expect(entry?.response).toEqual({
+        status: 201,
+        statusText: 'Created',
+        headers: { location: '/orders/42' },
+      });
+      expect(await ledger.getState()).toBe('idle');
+      expect((await ledger.list({ status: 'completed' })).map(e => e.id)).toEqual(['order-1']);
+
+      await ledger.clearCompleted();
+      expect(await storage.count()).toBe(0);
+      await ledger.destroy();
+    });
+
+    it('should prune completed entries beyond maxCount', async () => {
+      const ledger = await replay({ retention: { maxCount: 2 } }, ['order-1', 'order-2', 'order-3']);
+
+      expect((await ledger.list()).map(e => e.id)).toEqual(['order-2', 'order-3']);
+      await ledger.destroy();
+    });
+
+    it('should prune completed entries older than maxAgeMs', async () => {
+      const ledger = await replay({ retention: { maxAgeMs: 60_000 } }, ['order-1', 'order-2']);
+      await storage.update('order-1', { completedAt: Date.now() - 120_000 });
+
+      expect(await ledger.pruneCompleted()).toBe(1);
+      expect((await ledger.list()).map(e => e.id)).toEqual(['order-2']);
+      await ledger.destroy();
+    });
+  });
+
+  describe('concurrent processing', () => {
+    it('should send each entry once when two ledgers drain the same storage', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { ok: true, status: 200 };
+      });
+      global.fetch = fetchMock;
+      let online = false;
+      const config = { storage, onlineCheck: { customCheck: async () => online } };
+
+      const first = createLedger(config);
+      const second = createLedger(config);
+      for (const id of ['test-1', 'test-2', 'test-3']) {
+        await first.request({ id, url: `/test/${id}`, method: 'POST' });
+      }
+      online = true;
+      await Promise.all([first.process(), second.process()]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(await storage.count()).toBe(0);
+
+      await first.destroy();
+      await second.destroy();
+    });
+
+    it('should not overwrite a status changed while the request was in flight', async () => {
+      let respond: (response: { ok: boolean; status: number }) => void = () => undefined;
+      global.fetch = vi.fn().mockImplementation(() => new Promise((resolve) => {
+        respond = resolve;
+      }));
+      let online = false;
+      const ledger = createLedger({
+        storage,
+        retry: { type: 'manual' },
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      const processing = ledger.process();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      // Another tab changes the entry while this one is still waiting
+      await storage.update('test-1', { status: 'failed', error: { message: 'Cancelled in another tab' } });
+      respond({ ok: false, status: 500 });
+      await processing;
+
+      const entry = await ledger.get('test-1');
+      expect(entry?.status).toBe('failed');
+      expect(entry?.error).toEqual({ message: 'Cancelled in another tab' });
+      expect(await ledger.getState()).toBe('idle');
+
+      await ledger.destroy();
+    })
+    it('should record the outcome of an entry changed in flight but still processing', async () => {
+      let respond: (response: { ok: boolean; status: number }) => void = () => undefined;
+      global.fetch = vi.fn().mockImplementation(() => new Promise((resolve) => {
+        respond = resolve;
+      }));
+      let online = false;
+      const ledger = createLedger({
+        storage,
+        retention: {},
+        onlineCheck: { customCheck: async () => online },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      online = true;
+      const processing = ledger.process();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      // Another tab changes the entry without taking it over
+      await storage.update('test-1', { metadata: { note: 'edited' } });
+      respond({ ok: true, status: 201 });
+      await processing;
+
+      const entry = await ledger.get('test-1');
+      expect(entry?.status).toBe('completed');
+      expect(entry?.metadata).toEqual({ note: 'edited' });
+
+      await ledger.destroy();
+    });
+  });
+
+  describe('list', () => {
+    it('should filter entries by status', async () => {
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      await ledger.request({ id: 'test-2', url: '/test', method: 'POST' });
+      await storage.update('test-1', { status: 'failed', error: { message: 'Test failure' } });
+
+      const failed = await ledger.list({ status: 'failed' });
+      expect(failed.map(e => e.id)).toEqual(['test-1']);
+
+      await ledger.destroy();
+    });
+  });
+
   describe('manual retry', () => {
     it('should reset failed entry to pending', async () => {
       const ledger = createLedger({
@@ -220,6 +1468,191 @@ describe('RequestLedger Integration', () => {
     });
   });
 
+  describe('subscribe', () => {
+    it('should notify on every change made in this tab', async () => {
+      const ledger = createLedger({
+        storage,
+        onlineCheck: { customCheck: async () => false },
+      });
+      const changes: LedgerChange[] = [];
+      const unsubscribe = ledger.subscribe((change) => changes.push(change));
+
+      await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+      await ledger.request({ id: 'test-2', url: '/test', method: 'POST' });
+      await storage.update('test-1', { status: 'failed', error: { message: 'Test failure' } });
+      await ledger.retry('test-1');
+      await ledger.remove('test-1');
+      await ledger.clear();
+
+      unsubscribe();
+      await ledger.request({ id: 'test-3', url: '/test', method: 'POST' });
+
+      expect(changes).toEqual([
+        { type: 'put', entryId: 'test-1', remote: false },
+        { type: 'put', entryId: 'test-2', remote: false },
+        { type: 'update', entryId: 'test-1', remote: false },
+        { type: 'remove', entryId: 'test-1', remote: false },
+        { type: 'clear', remote: false },
+      ]);
+
+      await ledger.destroy();
+    });
+
+    it('should notify of changes made by another tab on the same store', async () => {
+      const storageConfig = { dbName: `subscribe-test-${Date.now()}-${testId}` };
+      const tab1 = createLedger({ storageConfig, multiTab: true, onlineCheck: { customCheck: async () => false } });
+      const tab2 = createLedger({ storageConfig, multiTab: true, onlineCheck: { customCheck: async () => false } });
+      const other = createLedger({
+        storageConfig: { dbName: `${storageConfig.dbName}-other` },
+        multiTab: true,
+        onlineCheck: { customCheck: async () => false },
+      });
+
+      const received = new Promise<LedgerChange>((resolve) => tab2.subscribe(resolve));
+      const unrelated = vi.fn();
+      other.subscribe(unrelated);
+
+      await tab1.request({ id: 'test-1', url: '/test', method: 'POST' });
+
+      expect(await received).toEqual({ type: 'put', entryId: 'test-1', remote: true });
+      expect(unrelated).not.toHaveBeenCalled();
+      expect((await tab2.get('test-1'))?.status).toBe('pending');
+
+      await tab1.destroy();
+      await tab2.destroy();
+      await other.destroy();
+    });
+
+    it('should not open a channel without multi-tab coordination', async () => {
+      const opened = vi.fn();
+      vi.stubGlobal('BroadcastChannel', class extends BroadcastChannel {
+        constructor(name: string) {
+          super(name);
+          opened(name);
+        }
+      });
+      try {
+        const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+        ledger.subscribe(() => undefined);
+        await ledger.request({ id: 'test-1', url: '/test', method: 'POST' });
+
+        expect(opened).not.toHaveBeenCalled();
+        await ledger.destroy();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('export and import', () => {
+    function createTarget() {
+      return new IndexedDBStorage({
+        dbName: `integration-import-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      });
+    }
+
+    it('should round-trip entries through JSON', async () => {
+      const source = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+      await source.request({ id: 'test-1', url: '/orders', method: 'POST', body: { qty: 2 }, metadata: { userId: 7 } });
+      await source.request({ id: 'test-2', url: '/upload', method: 'PUT', body: new Uint8Array([1, 2, 3]).buffer, queue: 'uploads' });
+      await storage.update('test-1', { status: 'failed', attemptCount: 3, error: { message: 'HTTP 503', code: '503' } });
+
+      const snapshot = await source.export();
+      expect(snapshot).toMatchObject({
+        format: 'request-ledger-snapshot',
+        version: 1,
+        ledger: { state: 'pending', entryCount: 2 },
+      });
+
+      const targetStorage = createTarget();
+      const target = createLedger({ storage: targetStorage, onlineCheck: { customCheck: async () => false } });
+      const result = await target.import(JSON.parse(JSON.stringify(snapshot)));
+
+      expect(result).toEqual({ imported: 2, skipped: 0 });
+      expect(await target.list()).toEqual(await source.list());
+      const upload = await target.get('test-2');
+      expect(Array.from(new Uint8Array(upload?.request.body as ArrayBuffer))).toEqual([1, 2, 3]);
+
+      await source.destroy();
+      await target.destroy();
+    });
+
+    it('should handle conflicts according to onConflict', async () => {
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => false } });
+      await ledger.request({ id: 'test-1', url: '/old', method: 'POST' });
+      const snapshot = await ledger.export();
+      snapshot.entries[0]!.request.url = '/new';
+      await ledger.request({ id: 'test-2', url: '/other', method: 'POST' });
+      const extended = await ledger.export();
+      extended.entries[0]!.request.url = '/new';
+      await ledger.remove('test-2');
+
+      await expect(ledger.import(extended)).rejects.toThrow(DuplicateEntryError);
+      await expect(ledger.import(extended, { onConflict: 'fail' })).rejects.toThrow(DuplicateEntryError);
+      // Nothing is written when an import fails
+      expect(await ledger.get('test-2')).toBeUndefined();
+
+      expect(await ledger.import(snapshot, { onConflict: 'skip' })).toEqual({ imported: 0, skipped: 1 });
+      expect((await ledger.get('test-1'))?.request.url).toBe('/old');
+
+      expect(await ledger.import(snapshot, { onConflict: 'replace' })).toEqual({ imported: 1, skipped: 0 });
+      expect((await ledger.get('test-1'))?.request.url).toBe('/new');
+
+      await ledger.destroy();
+    });
+
+    it('should reject unknown documents and newer snapshot versions', async () => {
+      const ledger = createLedger({ storage });
+      const snapshot = await ledger.export();
+
+      await expect(ledger.import({ entries: [] } as unknown as LedgerSnapshot)).rejects.toThrow(LedgerError);
+      await expect(ledger.import({ ...snapshot, version: 99 })).rejects.toThrow('newer than supported');
+      await expect(ledger.import({ ...snapshot, entries: [{ id: 'x' }] } as unknown as LedgerSnapshot))
+        .rejects.toThrow(new LedgerError('Malformed snapshot entry at index 0'));
+
+      const valid = {
+        id: 'x',
+        request: { url: '/test', method: 'POST', headers: {}, body: '{"a":1}' },
+        status: 'pending',
+        attemptCount: 0,
+        createdAt: 1000,
+        metadata: '{"b":2}',
+      };
+      const malformed = [
+        { ...valid, attemptCount: undefined },
+        { ...valid, attemptCount: -1 },
+        { ...valid, attemptCount: 1.5 },
+        { ...valid, request: { ...valid.request, body: { a: 1 } } },
+        { ...valid, request: { ...valid.request, body: 'not json' } },
+        { ...valid, request: { ...valid.request, headers: undefined } },
+        { ...valid, request: { ...valid.request, headers: { 'X-Count': 1 } } },
+        { ...valid, metadata: { b: 2 } },
+      ];
+      for (const entry of malformed) {
+        await expect(ledger.import({ ...snapshot, entries: [valid, entry] } as unknown as LedgerSnapshot))
+          .rejects.toThrow(new LedgerError('Malformed snapshot entry at index 1'));
+      }
+      expect(await storage.count()).toBe(0);
+
+      await ledger.destroy();
+    });
+
+    it('should keep the existing entry when its replacement cannot be stored', async () => {
+      const ledger = createLedger({
+        storage: new MemoryStorage({ maxBytes: 1000 }),
+        onlineCheck: { customCheck: async () => false },
+      });
+      await ledger.request({ id: 'test-1', url: '/old', method: 'POST' });
+      const snapshot = await ledger.export();
+      snapshot.entries[0]!.request.body = JSON.stringify('x'.repeat(2000));
+
+      await expect(ledger.import(snapshot, { onConflict: 'replace' })).rejects.toThrow(LedgerFullError);
+      expect((await ledger.get('test-1'))?.request.url).toBe('/old');
+
+      await ledger.destroy();
+    });
+  });
+
   describe('idempotency key', () => {
     it('should include idempotency key in stored entry', async () => {
       const ledger = createLedger({
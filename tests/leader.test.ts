@@ -0,0 +1,210 @@
+/**
+ * Multi-Tab Leader Election Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLeaderElector, type LeaderElector } from '../src/coordination/leader.js';
+import { createLedger, LedgerError, MemoryStorage } from '../src/index.js';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Minimal in-process Web Locks implementation for exclusive locks.
+ */
+class FakeLockManager {
+  private readonly held = new Set<string>();
+  private readonly queues = new Map<string, Array<() => void>>();
+
+  async request(
+    name: string,
+    options: { ifAvailable?: boolean; signal?: AbortSignal },
+    callback: (lock: { name: string } | null) => unknown
+  ): Promise<unknown> {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) {
+        return callback(null);
+      }
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.queues.get(name) ?? [];
+        queue.push(resolve);
+        this.queues.set(name, queue);
+        options.signal?.addEventListener('abort', () => {
+          this.queues.set(name, (this.queues.get(name) ?? []).filter((next) => next !== resolve));
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    }
+
+    this.held.add(name);
+    try {
+      return await callback({ name });
+    } finally {
+      this.held.delete(name);
+      this.queues.get(name)?.shift()?.();
+    }
+  }
+}
+
+const uniqueName = () => `leader-test-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+describe('createLeaderElector', () => {
+  const electors: LeaderElector[] = [];
+
+  function create(name: string, onChange?: (isLeader: boolean) => void): LeaderElector {
+    const elector = createLeaderElector({ name, heartbeatMs: 50, leaderTimeoutMs: 150, ...(onChange && { onChange }) });
+    electors.push(elector);
+    elector.start();
+    return elector;
+  }
+
+  afterEach(() => {
+    electors.splice(0).forEach((elector) => elector.stop());
+    vi.unstubAllGlobals();
+  });
+
+  describe('with Web Locks', () => {
+    it('should elect one leader and fail over when it stops', async () => {
+      vi.stubGlobal('navigator', { onLine: true, locks: new FakeLockManager() });
+      const name = uniqueName();
+      const onChange = vi.fn();
+
+      const first = create(name);
+      const second = create(name, onChange);
+      await Promise.all([first.ready(), second.ready()]);
+
+      expect(first.isLeader).toBe(true);
+      expect(second.isLeader).toBe(false);
+
+      first.stop();
+      await wait(0);
+
+      expect(second.isLeader).toBe(true);
+      expect(onChange).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('with BroadcastChannel', () => {
+    it('should elect exactly one leader', async () => {
+      vi.stubGlobal('navigator', { onLine: true });
+      const name = uniqueName();
+
+      const electorsForName = [create(name), create(name), create(name)];
+      await Promise.all(electorsForName.map((elector) => elector.ready()));
+      await wait(100);
+
+      expect(electorsForName.filter((elector) => elector.isLeader)).toHaveLength(1);
+    });
+
+    it('should defer to an existing leader', async () => {
+      vi.stubGlobal('navigator', { onLine: true });
+      const name = uniqueName();
+
+      const leader = create(name);
+      await leader.ready();
+      const follower = create(name);
+      await follower.ready();
+
+      expect(leader.isLeader).toBe(true);
+      expect(follower.isLeader).toBe(false);
+    });
+
+    it('should fail over when the leader resigns', async () => {
+      vi.stubGlobal('navigator', { onLine: true });
+      const name = uniqueName();
+
+      const leader = create(name);
+      await leader.ready();
+      const follower = create(name);
+      await follower.ready();
+
+      leader.stop();
+      await wait(400);
+
+      expect(follower.isLeader).toBe(true);
+    });
+  });
+});
+
+describe('RequestLedger multi-tab', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.unstubAllGlobals();
+  });
+
+  it('should only replay in the leader tab and report its state to followers', async () => {
+    vi.stubGlobal('navigator', { onLine: true, locks: new FakeLockManager() });
+    const storage = new MemoryStorage();
+    const config = { storage, multiTab: { name: uniqueName() }, onlineCheck: { customCheck: async () => true } };
+
+    let finish: () => void = () => undefined;
+    const fetchMock = vi.fn().mockImplementation(() => new Promise((resolve) => {
+      finish = () => resolve({ ok: true, status: 200 });
+    }));
+    global.fetch = fetchMock;
+
+    const enqueue = (id: string) => storage.put({
+      id,
+      request: { url: '/test', method: 'POST', headers: {}, body: undefined },
+      status: 'pending',
+      attemptCount: 0,
+      createdAt: Date.now(),
+    });
+
+    const leader = createLedger(config);
+    const follower = createLedger(config);
+    await enqueue('test-1');
+
+    await follower.process();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(leader.isLeader()).toBe(true);
+    expect(follower.isLeader()).toBe(false);
+
+    const processing = leader.process();
+    await wait(10);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await follower.getState()).toBe('processing');
+    finish();
+    await processing;
+
+    // Leadership moves to the remaining tab
+    await leader.destroy();
+    await wait(0);
+    expect(follower.isLeader()).toBe(true);
+
+    await enqueue('test-2');
+    const failover = follower.process();
+    await wait(10);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    finish();
+    await failover;
+
+    expect(await storage.count()).toBe(0);
+    await follower.destroy();
+  });
+
+  it('should let every tab replay its own custom storage by default', async () => {
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('navigator', { onLine: true, locks: new FakeLockManager() });
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    const onlineCheck = { customCheck: async () => true };
+
+    const tab1 = createLedger({ storage: new MemoryStorage(), onlineCheck });
+    const tab2 = createLedger({ storage: new MemoryStorage(), onlineCheck });
+    await tab2.request({ id: 'b-1', url: '/test', method: 'POST' });
+
+    expect(tab1.isLeader()).toBe(true);
+    expect(tab2.isLeader()).toBe(true);
+    expect(await tab2.list()).toEqual([]);
+
+    await tab1.destroy();
+    await tab2.destroy();
+  });
+
+  it('should require a name to coordinate tabs on a custom storage', () => {
+    expect(() => createLedger({ storage: new MemoryStorage(), multiTab: true })).toThrow(LedgerError);
+  });
+});
@@ -8,6 +8,7 @@ import {
   isNetworkError,
   isRetryableStatusCode,
   isClientError,
+  parseRetryAfter,
 } from '../src/online/checker.js';
 
 describe('createOnlineChecker', () => {
@@ -148,6 +149,10 @@ describe('isRetryableStatusCode', () => {
     expect(isRetryableStatusCode(599)).toBe(true);
   });
 
+  it('should return true for 429 rate limiting', () => {
+    expect(isRetryableStatusCode(429)).toBe(true);
+  });
+
   it('should return false for other status codes', () => {
     expect(isRetryableStatusCode(200)).toBe(false);
     expect(isRetryableStatusCode(400)).toBe(false);
@@ -156,6 +161,27 @@ describe('isRetryableStatusCode', () => {
   });
 });
 
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('should parse delay seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('should parse HTTP-dates relative to now', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:01:30 GMT', now)).toBe(90_000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter('-5', now)).toBeUndefined();
+  });
+});
+
 describe('isClientError', () => {
   it('should return true for 4xx status codes', () => {
     expect(isClientError(400)).toBe(true);
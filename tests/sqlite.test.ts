@@ -0,0 +1,127 @@
+/**
+ * SQLite Storage Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteStorage } from '../src/storage/sqlite.js';
+import type { LedgerEntry } from '../src/types.js';
+import { LedgerError, PersistenceError } from '../src/types.js';
+
+// node:sqlite ships with Node 22.5+
+const sqlite = process.getBuiltinModule?.('node:sqlite') as
+  | { DatabaseSync: new (path: string) => { exec(sql: string): void; prepare(sql: string): { all(): unknown[]; get(): unknown }; close(): void } }
+  | undefined;
+
+function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    request: {
+      url: 'https://api.example.com/test',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { test: 'data' },
+    },
+    status: 'pending',
+    attemptCount: 0,
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe.skipIf(!sqlite)('SqliteStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'request-ledger-'));
+    path = join(dir, 'ledger.db');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across connections', async () => {
+    const first = new SqliteStorage({ path });
+    await first.put(createEntry('test-1', { idempotencyKey: 'key-1', metadata: { userId: 1 } }));
+    await first.update('test-1', { status: 'failed', error: { message: 'boom' } });
+    first.close();
+
+    const second = new SqliteStorage({ path });
+    const entry = await second.get('test-1');
+    expect(entry?.status).toBe('failed');
+    expect(entry?.idempotencyKey).toBe('key-1');
+    expect(entry?.metadata).toEqual({ userId: 1 });
+    second.close();
+  });
+
+  it('should create indexes on status, createdAt, idempotencyKey and queue', async () => {
+    const storage = new SqliteStorage({ path });
+    await storage.count();
+    storage.close();
+
+    const db = new sqlite!.DatabaseSync(path);
+    const indexes = db.prepare(`PRAGMA index_list(ledger_entries)`).all().map((row) => (row as { name: string }).name);
+    const version = db.prepare(`SELECT version FROM request_ledger_schema WHERE table_name = 'ledger_entries'`).get();
+    db.close();
+
+    expect(indexes).toEqual(expect.arrayContaining([
+      'ledger_entries_status',
+      'ledger_entries_created_at',
+      'ledger_entries_idempotency_key',
+      'ledger_entries_queue_status',
+    ]));
+    expect(version).toEqual(expect.objectContaining({ version: 2 }));
+  });
+
+  it('should add the queue column to a v1 table', async () => {
+    const db = new sqlite!.DatabaseSync(path);
+    db.exec(`CREATE TABLE request_ledger_schema (table_name TEXT PRIMARY KEY, version INTEGER NOT NULL)`);
+    db.exec(`INSERT INTO request_ledger_schema VALUES ('ledger_entries', 1)`);
+    db.exec(`CREATE TABLE ledger_entries (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      idempotency_key TEXT,
+      data TEXT NOT NULL
+    )`);
+    db.close();
+
+    const storage = new SqliteStorage({ path });
+    await storage.put(createEntry('test-1'));
+    await storage.put(createEntry('test-2', { queue: 'mutations' }));
+
+    expect((await storage.query({ queue: 'default' })).map((e) => e.id)).toEqual(['test-1']);
+    expect((await storage.query({ queue: 'mutations' })).map((e) => e.id)).toEqual(['test-2']);
+    storage.close();
+  });
+
+  it('should keep separate tables in one database', async () => {
+    const a = new SqliteStorage({ path, tableName: 'queue_a' });
+    const b = new SqliteStorage({ path, tableName: 'queue_b' });
+
+    await a.put(createEntry('test-1'));
+
+    expect(await a.count()).toBe(1);
+    expect(await b.count()).toBe(0);
+    a.close();
+    b.close();
+  });
+
+  it('should refuse a schema newer than it supports', async () => {
+    const db = new sqlite!.DatabaseSync(path);
+    db.exec(`CREATE TABLE request_ledger_schema (table_name TEXT PRIMARY KEY, version INTEGER NOT NULL)`);
+    db.exec(`INSERT INTO request_ledger_schema VALUES ('ledger_entries', 99)`);
+    db.close();
+
+    const storage = new SqliteStorage({ path });
+    await expect(storage.count()).rejects.toThrow(PersistenceError);
+  });
+
+  it('should reject unsafe table names', () => {
+    expect(() => new SqliteStorage({ path, tableName: 'x; DROP TABLE y' })).toThrow(LedgerError);
+  });
+});
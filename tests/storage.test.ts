@@ -2,10 +2,19 @@
  * Storage Layer Tests
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { IndexedDBStorage } from '../src/storage/indexeddb.js';
-import type { LedgerEntry } from '../src/types.js';
-import { DuplicateEntryError, EntryNotFoundError } from '../src/types.js';
+import { MemoryStorage } from '../src/storage/memory.js';
+import { FileJournalStorage } from '../src/storage/file-journal.js';
+import { SqliteStorage } from '../src/storage/sqlite.js';
+import { entrySize } from '../src/storage/entries.js';
+import { runStorageConformanceTests } from '../src/testing.js';
+import { createLedger } from '../src/ledger.js';
+import type { LedgerEntry, LedgerStorage, StorageLimitsConfig } from '../src/types.js';
+import { LedgerFullError, PersistenceError, QuotaExceededError } from '../src/types.js';
 
 function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
   return {
@@ -23,177 +32,291 @@ function createEntry(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEn
   };
 }
 
-describe('IndexedDBStorage', () => {
-  let storage: IndexedDBStorage;
+// node:sqlite ships with Node 22.5+
+const hasSqlite = Boolean(process.getBuiltinModule?.('node:sqlite'));
 
-  beforeEach(() => {
-    storage = new IndexedDBStorage({
-      dbName: `test-db-${Date.now()}`,
-      maxEntries: 10,
-    });
-  });
+type TestStorage = LedgerStorage & { close?: () => void | Promise<void> };
 
-  afterEach(() => {
-    storage.close();
+// Directories of journal files created by the tests, removed after each test
+const tempDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'request-ledger-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const adapters: Array<{ name: string; create: (limits: StorageLimitsConfig) => TestStorage }> = [
+  {
+    name: 'IndexedDBStorage',
+    create: (limits) => new IndexedDBStorage({
+      dbName: `test-db-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      ...limits,
+    }),
+  },
+  {
+    name: 'MemoryStorage',
+    create: (limits) => new MemoryStorage(limits),
+  },
+  {
+    name: 'FileJournalStorage',
+    create: (limits) => new FileJournalStorage({
+      path: join(createTempDir(), 'ledger.jsonl'),
+      ...limits,
+    }),
+  },
+  ...(hasSqlite ? [{
+    name: 'SqliteStorage',
+    create: (limits: StorageLimitsConfig) => new SqliteStorage({ path: ':memory:', ...limits }),
+  }] : []),
+];
+
+for (const { name, create } of adapters) {
+  runStorageConformanceTests(() => create({ maxEntries: 10 }), {
+    name: `${name} conformance`,
+    api: { describe, it, beforeEach, afterEach },
   });
+}
+
+describe.each(adapters)('$name', ({ create }) => {
+  describe('eviction', () => {
+    it('should evict oldest entries when maxEntries exceeded', async () => {
+      // Create storage with max 3 entries
+      const smallStorage = create({ maxEntries: 3 });
 
-  describe('put', () => {
-    it('should store a new entry', async () => {
-      const entry = createEntry('test-1');
-      await storage.put(entry);
-      
-      const retrieved = await storage.get('test-1');
-      expect(retrieved).toBeDefined();
-      expect(retrieved?.id).toBe('test-1');
-      expect(retrieved?.request.url).toBe('https://api.example.com/test');
+      try {
+        await smallStorage.put(createEntry('test-1', { createdAt: 1000 }));
+        await smallStorage.put(createEntry('test-2', { createdAt: 2000 }));
+        await smallStorage.put(createEntry('test-3', { createdAt: 3000 }));
+        
+        // This should evict test-1 (oldest)
+        await smallStorage.put(createEntry('test-4', { createdAt: 4000 }));
+        
+        const all = await smallStorage.getAll();
+        expect(all).toHaveLength(3);
+        expect(all.map(e => e.id)).toEqual(['test-2', 'test-3', 'test-4']);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
 
-    it('should throw DuplicateEntryError for duplicate ID', async () => {
-      const entry = createEntry('test-1');
-      await storage.put(entry);
-      
-      await expect(storage.put(entry)).rejects.toThrow(DuplicateEntryError);
+    async function fillSmallStorage(limits: StorageLimitsConfig): Promise<TestStorage> {
+      const smallStorage = create({ maxEntries: 3, ...limits });
+      await smallStorage.put(createEntry('test-1', { createdAt: 1000, status: 'processing' }));
+      await smallStorage.put(createEntry('test-2', { createdAt: 2000 }));
+      await smallStorage.put(createEntry('test-3', { createdAt: 3000, status: 'failed' }));
+      return smallStorage;
+    }
+
+    it('should report evicted entries and never evict processing entries', async () => {
+      const evicted: string[] = [];
+      const smallStorage = await fillSmallStorage({ onEvict: (entry) => evicted.push(entry.id) });
+
+      try {
+        await smallStorage.put(createEntry('test-4', { createdAt: 4000 }));
+
+        expect(evicted).toEqual(['test-2']);
+        expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-1', 'test-3', 'test-4']);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
 
-    it('should serialize and deserialize body correctly', async () => {
-      const entry = createEntry('test-1', {
-        request: {
-          url: 'https://api.example.com/test',
-          method: 'POST',
-          headers: {},
-          body: { nested: { data: [1, 2, 3] } },
-        },
-      });
-      await storage.put(entry);
-      
-      const retrieved = await storage.get('test-1');
-      expect(retrieved?.request.body).toEqual({ nested: { data: [1, 2, 3] } });
+    it('should evict failed entries first with evict-failed-first', async () => {
+      const smallStorage = await fillSmallStorage({ evictionPolicy: 'evict-failed-first' });
+
+      try {
+        await smallStorage.put(createEntry('test-4', { createdAt: 4000 }));
+
+        expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-1', 'test-2', 'test-4']);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
 
-    it('should serialize and deserialize metadata correctly', async () => {
-      const entry = createEntry('test-1', {
-        metadata: { userId: 123, action: 'create' },
-      });
-      await storage.put(entry);
-      
-      const retrieved = await storage.get('test-1');
-      expect(retrieved?.metadata).toEqual({ userId: 123, action: 'create' });
+    it('should throw LedgerFullError and store nothing with reject', async () => {
+      const onEvict = vi.fn();
+      const smallStorage = await fillSmallStorage({ evictionPolicy: 'reject', onEvict });
+
+      try {
+        await expect(smallStorage.put(createEntry('test-4', { createdAt: 4000 }))).rejects.toThrow(LedgerFullError);
+
+        expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-1', 'test-2', 'test-3']);
+        expect(onEvict).not.toHaveBeenCalled();
+      } finally {
+        await smallStorage.close?.();
+      }
     });
-  });
 
-  describe('getAll', () => {
-    it('should return entries ordered by createdAt', async () => {
-      const entry1 = createEntry('test-1', { createdAt: 1000 });
-      const entry2 = createEntry('test-2', { createdAt: 3000 });
-      const entry3 = createEntry('test-3', { createdAt: 2000 });
-      
-      await storage.put(entry1);
-      await storage.put(entry2);
-      await storage.put(entry3);
-      
-      const all = await storage.getAll();
-      expect(all).toHaveLength(3);
-      expect(all[0]?.id).toBe('test-1');
-      expect(all[1]?.id).toBe('test-3');
-      expect(all[2]?.id).toBe('test-2');
+    it('should evict completed entries before undelivered ones', async () => {
+      for (const evictionPolicy of ['evict-oldest', 'evict-failed-first', 'reject'] as const) {
+        const smallStorage = create({ maxEntries: 2, evictionPolicy });
+
+        try {
+          await smallStorage.put(createEntry('test-1', { createdAt: 1000 }));
+          await smallStorage.put(createEntry('test-2', { createdAt: 2000, status: 'completed', completedAt: 2500 }));
+          await smallStorage.put(createEntry('test-3', { createdAt: 3000 }));
+
+          expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-1', 'test-3']);
+        } finally {
+          await smallStorage.close?.();
+        }
+      }
+    });
+
+    it('should use a custom eviction selector', async () => {
+      const selector = vi.fn((candidates: LedgerEntry[]) => candidates.filter(e => e.id === 'test-3').map(e => e.id));
+      const smallStorage = await fillSmallStorage({ evictionPolicy: selector });
+
+      try {
+        await smallStorage.put(createEntry('test-4', { createdAt: 4000 }));
+
+        expect(selector.mock.calls[0]?.[0].map((e: LedgerEntry) => e.id)).toEqual(['test-2', 'test-3']);
+        expect(selector.mock.calls[0]?.[1]).toBe(1);
+        expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-1', 'test-2', 'test-4']);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
 
-    it('should return empty array when no entries exist', async () => {
-      const all = await storage.getAll();
-      expect(all).toEqual([]);
+    it('should evict oldest entries to stay within maxBytes', async () => {
+      const size = entrySize(createEntry('test-1', { createdAt: 1000 }));
+      const evicted: string[] = [];
+      const smallStorage = create({ maxBytes: size * 2 + 10, onEvict: (entry) => evicted.push(entry.id) });
+
+      try {
+        await smallStorage.put(createEntry('test-1', { createdAt: 1000 }));
+        await smallStorage.put(createEntry('test-2', { createdAt: 2000 }));
+        await smallStorage.put(createEntry('test-3', { createdAt: 3000 }));
+
+        expect(evicted).toEqual(['test-1']);
+        expect((await smallStorage.getAll()).map(e => e.id)).toEqual(['test-2', 'test-3']);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
-  });
 
-  describe('update', () => {
-    it('should update an existing entry', async () => {
-      const entry = createEntry('test-1');
-      await storage.put(entry);
-      
-      await storage.update('test-1', {
-        status: 'processing',
-        attemptCount: 1,
-        lastAttemptAt: 12345,
-      });
-      
-      const retrieved = await storage.get('test-1');
-      expect(retrieved?.status).toBe('processing');
-      expect(retrieved?.attemptCount).toBe(1);
-      expect(retrieved?.lastAttemptAt).toBe(12345);
+    it('should reject an entry larger than maxBytes', async () => {
+      const smallStorage = create({ maxBytes: 50 });
+
+      try {
+        await expect(smallStorage.put(createEntry('test-1'))).rejects.toThrow(LedgerFullError);
+        expect(await smallStorage.count()).toBe(0);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
 
-    it('should throw EntryNotFoundError for non-existent entry', async () => {
-      await expect(
-        storage.update('non-existent', { status: 'failed' })
-      ).rejects.toThrow(EntryNotFoundError);
+    it('should reject when a custom selector frees too little', async () => {
+      const smallStorage = await fillSmallStorage({ evictionPolicy: () => [] });
+
+      try {
+        await expect(smallStorage.put(createEntry('test-4', { createdAt: 4000 }))).rejects.toThrow(LedgerFullError);
+        expect(await smallStorage.count()).toBe(3);
+      } finally {
+        await smallStorage.close?.();
+      }
     });
   });
 
-  describe('remove', () => {
-    it('should remove an entry', async () => {
-      const entry = createEntry('test-1');
-      await storage.put(entry);
-      
-      await storage.remove('test-1');
-      
-      const retrieved = await storage.get('test-1');
-      expect(retrieved).toBeUndefined();
-    });
+  describe('stored requests', () => {
+    it('should store the JSON form of bodies and metadata', async () => {
+      class Money {
+        constructor(private readonly cents: number) {}
+        toJSON(): string {
+          return (this.cents / 100).toFixed(2);
+        }
+      }
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      vi.stubGlobal('fetch', fetchMock);
+      const storage = create({ maxEntries: 10 });
+      let online = false;
+      const ledger = createLedger({ storage, onlineCheck: { customCheck: async () => online } });
 
-    it('should not throw for non-existent entry', async () => {
-      await expect(storage.remove('non-existent')).resolves.toBeUndefined();
+      try {
+        await ledger.request({
+          id: 'test-1',
+          url: '/orders',
+          method: 'POST',
+          body: { price: new Money(1234), format: () => 'unused' },
+          metadata: { queuedAt: new Date(0) },
+        });
+
+        const stored = await ledger.get('test-1');
+        expect(stored?.metadata).toEqual({ queuedAt: '1970-01-01T00:00:00.000Z' });
+
+        online = true;
+        await ledger.process();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect((fetchMock.mock.calls[0]?.[1] as RequestInit).body).toBe('{"price":"12.34"}');
+      } finally {
+        await ledger.destroy();
+        await storage.close?.();
+        vi.unstubAllGlobals();
+      }
     });
   });
+});
 
-  describe('clear', () => {
-    it('should remove all entries', async () => {
-      await storage.put(createEntry('test-1'));
-      await storage.put(createEntry('test-2'));
-      await storage.put(createEntry('test-3'));
-      
-      await storage.clear();
-      
-      const all = await storage.getAll();
-      expect(all).toEqual([]);
+describe('IndexedDBStorage quota check', () => {
+  const originalNavigator = global.navigator;
+  let storage: IndexedDBStorage;
+
+  function mockEstimate(estimate: StorageEstimate): void {
+    Object.defineProperty(global, 'navigator', {
+      value: { onLine: true, storage: { estimate: async () => estimate } },
+      configurable: true,
+    });
+  }
+
+  beforeEach(() => {
+    storage = new IndexedDBStorage({
+      dbName: `quota-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
     });
   });
 
-  describe('count', () => {
-    it('should return correct count', async () => {
-      expect(await storage.count()).toBe(0);
-      
-      await storage.put(createEntry('test-1'));
-      expect(await storage.count()).toBe(1);
-      
-      await storage.put(createEntry('test-2'));
-      expect(await storage.count()).toBe(2);
-      
-      await storage.remove('test-1');
-      expect(await storage.count()).toBe(1);
+  afterEach(() => {
+    storage.close();
+    Object.defineProperty(global, 'navigator', {
+      value: originalNavigator,
+      configurable: true,
     });
   });
 
-  describe('eviction', () => {
-    it('should evict oldest entries when maxEntries exceeded', async () => {
-      // Create storage with max 3 entries
-      const smallStorage = new IndexedDBStorage({
-        dbName: `eviction-test-${Date.now()}`,
-        maxEntries: 3,
-      });
+  it('should throw QuotaExceededError when the entry does not fit', async () => {
+    mockEstimate({ usage: 1000, quota: 1010 });
 
-      try {
-        await smallStorage.put(createEntry('test-1', { createdAt: 1000 }));
-        await smallStorage.put(createEntry('test-2', { createdAt: 2000 }));
-        await smallStorage.put(createEntry('test-3', { createdAt: 3000 }));
-        
-        // This should evict test-1 (oldest)
-        await smallStorage.put(createEntry('test-4', { createdAt: 4000 }));
-        
-        const all = await smallStorage.getAll();
-        expect(all).toHaveLength(3);
-        expect(all.map(e => e.id)).toEqual(['test-2', 'test-3', 'test-4']);
-      } finally {
-        smallStorage.close();
-      }
+    const error = await storage.put(createEntry('test-1')).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toBeInstanceOf(PersistenceError);
+    expect(await storage.count()).toBe(0);
+  });
+
+  it('should store the entry when it fits', async () => {
+    mockEstimate({ usage: 1000, quota: 1_000_000 });
+
+    await storage.put(createEntry('test-1'));
+    expect(await storage.count()).toBe(1);
+  });
+
+  it('should skip the check when disabled', async () => {
+    mockEstimate({ usage: 1000, quota: 1010 });
+    const unchecked = new IndexedDBStorage({
+      dbName: `quota-test-off-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      quotaCheck: false,
     });
+
+    try {
+      await unchecked.put(createEntry('test-1'));
+      expect(await unchecked.count()).toBe(1);
+    } finally {
+      unchecked.close();
+    }
   });
 });